@@ -1,8 +1,57 @@
-import React, { useState } from 'react';
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
 import { PolaroidCamera } from './components/PolaroidCamera';
 import { Photo } from './components/Photo';
-import { PhotoData } from './types';
+import { SelectionBox } from './components/SelectionBox';
+import { WallToolbar } from './components/WallToolbar';
+import { Toast } from './components/Toast';
+import { Minimap } from './components/Minimap';
+import { ZoomControls } from './components/ZoomControls';
+import { WallDecoration } from './components/WallDecoration';
+import { DecorationPalette } from './components/DecorationPalette';
+import { ArrangeMenu } from './components/ArrangeMenu';
+import { BoardSwitcher } from './components/BoardSwitcher';
+import { ExportMenu } from './components/ExportMenu';
+import { CaptureResult, Decoration, FilmRecipe, PhotoCaption, PhotoData, WallItem, WallTool } from './types';
 import { v4 as uuidv4 } from 'uuid';
+import { redevelopFilm } from './utils/developFilm';
+import { resolveImageUrl } from './utils/wallStore';
+import { getFilmStocks } from './utils/presets';
+import { cardGeometry, getFilmFormat } from './utils/filmFormat';
+import { developTimeFor } from './utils/development';
+import { downloadBlob, downloadCanvas, renderCardBackCanvas, renderCardCanvas } from './utils/cardRenderer';
+import { isTextInput, isWallKeyTarget } from './utils/keyboard';
+import { ItemTransform, Point, clampGroupFactor, itemBounds, itemContains, itemPose, rectCenter, rectsIntersect, transformGroup, unionBounds } from './utils/selection';
+import { ZOrderAction, Z_ORDER_LABELS, applyZOrder, nextZ, stackingOrder } from './utils/zOrder';
+import { fanLayout, snapIntoStack, stackMembers, unstack } from './utils/photoStacks';
+import { captionOf } from './utils/caption';
+import { forgetViewport, saveViewport, toScreen, visibleWorldRect } from './utils/viewport';
+import { DECORATION_LABELS, DecorationDraft, canAttach, createDecoration, createStroke, hostOf, isDecoration, isPhoto, strokePath } from './utils/decorations';
+import { attachDropped, decorationOnPhoto, followAttachments } from './utils/attachments';
+import { LAYOUT_LABELS, WallLayout, arrangeWall } from './utils/layouts';
+import { WallExportFormat, WallExportScope, exportArea, fitExportScale, renderWallPdf, renderWallPng } from './utils/wallRenderer';
+import { cleanBoardName, cloneItems, createBoard, freeBoardName, wallBackground, wallPatternCss } from './utils/boards';
+import { useDevelopment } from './hooks/useDevelopment';
+import { useWallPersistence } from './hooks/useWallPersistence';
+import { useWallHistory } from './hooks/useWallHistory';
+import { applyChanges, diffWall } from './utils/wallHistory';
+import { SelectionGestureMode, useSelectionGesture } from './hooks/useSelectionGesture';
+import { useMarqueeSelection } from './hooks/useMarqueeSelection';
+import { useViewport } from './hooks/useViewport';
+import { usePenStroke } from './hooks/usePenStroke';
+import { useAnnouncer } from './hooks/useAnnouncer';
+import { useBoards } from './hooks/useBoards';
+import {
+  ARRANGE_DURATION,
+  CAPTION_COLORS,
+  NUDGE_STEP,
+  NUDGE_STEP_LARGE,
+  PEN_WIDTH,
+  ROTATE_STEP,
+  ROTATE_STEP_LARGE,
+  SCALE_STEP,
+  TOAST_DURATION,
+  WALL_ZOOM_STEP,
+} from './constants';
 
 const PASTEL_COLORS = [
   '#ffffff', // Classic White
@@ -17,39 +66,156 @@ const PASTEL_COLORS = [
   '#fffacd', // Lemon Chiffon
 ];
 
+type Print = CaptureResult & { timestamp: number };
+
+const GESTURE_LABELS: Record<SelectionGestureMode, string> = {
+  move: 'Move',
+  rotate: 'Rotate',
+  scale: 'Resize',
+  pinch: 'Transform',
+};
+
+// What an edit to `items` is called in undo labels: "photo", "tape", "items"...
+const describeItems = (items: WallItem[]) => {
+  if (items.length === 1) return isDecoration(items[0]) ? DECORATION_LABELS[items[0].kind] : 'photo';
+  return items.every(isPhoto) ? 'photos' : 'items';
+};
+
+// Keys that nudge, turn or resize the selection.
+const STEP_KEYS = ['ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown', '[', ']', '+', '=', '-', '_'];
+
+// "Photo deleted", "3 items sent to Trip"...
+const describeDone = (items: WallItem[], done: string) => items.length === 1
+  ? `${describeItems(items).replace(/^./, c => c.toUpperCase())} ${done}`
+  : `${items.length} ${describeItems(items)} ${done}`;
+
 export default function App() {
-  const [photos, setPhotos] = useState<PhotoData[]>([]);
-  const [currentPrint, setCurrentPrint] = useState<{ url: string; timestamp: number; borderColor: string } | null>(null);
+  // Photos and decorations share the wall, and so its stacking and history.
+  const [items, setItems] = useState<WallItem[]>([]);
+  const photos = items.filter(isPhoto);
+  const [currentPrint, setCurrentPrint] = useState<(Print & { borderColor: string }) | null>(null);
+  // Bursts shoot faster than prints are pulled from the slot; the rest wait here.
+  const [printQueue, setPrintQueue] = useState<Print[]>([]);
   const [isPrinting, setIsPrinting] = useState(false);
-  const [selectedPhotoId, setSelectedPhotoId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const development = useDevelopment(items, setItems);
+  // Each board is its own wall; only the active one is in `items`.
+  const boardList = useBoards();
+  const board = boardList.active;
+  const background = wallBackground(board.backgroundId);
+  const wallRef = useRef<HTMLDivElement>(null);
+  const wallView = useViewport(wallRef, board.id, (id, factor, client) => pinchItem(id, factor, client));
+  const { viewport } = wallView;
+  const wallStorage = useWallPersistence(
+    board.id,
+    items,
+    setItems,
+    visibleWorldRect(viewport, wallView.size.width, wallView.size.height)
+  );
+  const history = useWallHistory(setItems, wallRef);
+  const [deletedToast, setDeletedToast] = useState<{ item: WallItem; index: number }[] | null>(null);
+  const [sentToast, setSentToast] = useState<{ message: string; boardId: string } | null>(null);
+  // `retry` runs the export again past a warning.
+  const [exportNotice, setExportNotice] = useState<{ message: string; retry?: () => void } | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const selectedItems = items.filter(p => selectedIds.includes(p.id));
+  const selectedPhotos = selectedItems.filter(isPhoto);
+  const [wallTool, setWallTool] = useState<WallTool>('pan');
+  const [stackOnDrop, setStackOnDrop] = useState(false);
+  // The stack currently spread out for picking a card; purely visual.
+  const [fannedStackId, setFannedStackId] = useState<string | null>(null);
+  const fannedMembers = fannedStackId ? stackMembers(items, fannedStackId) : [];
+  const fan = fanLayout(fannedMembers);
+  const [writingId, setWritingId] = useState<string | null>(null);
+  const [penColor, setPenColor] = useState(CAPTION_COLORS[1]);
+  const { message: announcement, announce } = useAnnouncer();
+  // Set for a moment while items glide into a new layout.
+  const [isArranging, setIsArranging] = useState(false);
+  // An item to move keyboard focus to once it's on the wall.
+  const [focusId, setFocusId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (fannedStackId && fannedMembers.length < 2) setFannedStackId(null);
+  }, [fannedStackId, fannedMembers.length]);
+
+  // The wall as of the last edit, for working out the next one outside a
+  // state updater (React may replay those, and history must see each once).
+  const itemsRef = useRef(items);
+  useLayoutEffect(() => {
+    itemsRef.current = items;
+  }, [items]);
+
+  // Every user edit to the wall goes through here so it lands in undo history.
+  // Tape and pins are carried along with whatever photo they hold. Anything
+  // that changed the wall meanwhile (a develop tick) is kept: only what the
+  // edit itself changed is applied.
+  const updateWall = (label: string, update: (prev: WallItem[]) => WallItem[], gesture?: string) => {
+    const prev = itemsRef.current;
+    const next = followAttachments(prev, update(prev));
+    if (next === prev) return;
+    itemsRef.current = next;
+    history.track(label, prev, next, gesture);
+    const changes = diffWall(prev, next);
+    setItems(current => current === prev ? next : applyChanges(current, changes, 'after'));
+  };
+
+  // Drop ids whose items went away (undo, restore, clear).
+  useEffect(() => {
+    if (selectedIds.some(id => !items.some(p => p.id === id))) {
+      setSelectedIds(prev => prev.filter(id => items.some(p => p.id === id)));
+    }
+  }, [items, selectedIds]);
+
+  useEffect(() => {
+    if (!deletedToast) return;
+    const timer = setTimeout(() => setDeletedToast(null), TOAST_DURATION);
+    return () => clearTimeout(timer);
+  }, [deletedToast]);
+
+  useEffect(() => {
+    if (!sentToast) return;
+    const timer = setTimeout(() => setSentToast(null), TOAST_DURATION);
+    return () => clearTimeout(timer);
+  }, [sentToast]);
+
+  useEffect(() => {
+    if (!exportNotice) return;
+    const timer = setTimeout(() => setExportNotice(null), TOAST_DURATION);
+    return () => clearTimeout(timer);
+  }, [exportNotice]);
   
-  const handleCapture = (imageUrl: string) => {
+  const handleCapture = (capture: CaptureResult) => {
+    setPrintQueue(prev => [...prev, { ...capture, timestamp: Date.now() }]);
+  };
+
+  // Eject the next waiting print once the slot is empty.
+  useEffect(() => {
+    if (currentPrint || printQueue.length === 0) return;
     const randomColor = PASTEL_COLORS[Math.floor(Math.random() * PASTEL_COLORS.length)];
     
     setIsPrinting(true);
-    setCurrentPrint({
-      url: imageUrl,
-      timestamp: Date.now(),
-      borderColor: randomColor
-    });
-
-    setTimeout(() => {
-       setIsPrinting(false); 
-    }, 1500); 
-  };
+    setCurrentPrint({ ...printQueue[0], borderColor: randomColor });
+    setPrintQueue(prev => prev.slice(1));
+    announce('Photo printed');
+  }, [currentPrint, printQueue]);
 
-  // Accepts PointerEvent now
-  const handleDragFromCamera = (e: React.PointerEvent) => {
+  // The eject animation belongs to the print in the slot; placing it early
+  // must not let its timer cut the next one short.
+  useEffect(() => {
     if (!currentPrint) return;
+    const timer = setTimeout(() => setIsPrinting(false), 1500);
+    return () => clearTimeout(timer);
+  }, [currentPrint]);
+
+  // `start` is where the print was taken hold of, in wall coordinates.
+  const placePrint = (start: Point) => {
+    if (!currentPrint) return null;
 
-    const startX = e.clientX;
-    const startY = e.clientY;
-    
     const newId = uuidv4();
     const randomRotation = (Math.random() * 10) - 5; 
 
-    const initialX = startX - 120;
-    const initialY = startY - 50; 
+    const initialX = start.x - cardGeometry(getFilmFormat(currentPrint.formatId)).width / 2;
+    const initialY = start.y - 50; 
 
     const newPhoto: PhotoData = {
       id: newId,
@@ -60,56 +226,747 @@ export default function App() {
       rotation: randomRotation,
       scale: 1,
       isDeveloping: true,
-      borderColor: currentPrint.borderColor
+      developProgress: 0,
+      developTime: developTimeFor(getFilmStocks().find(s => s.id === currentPrint.recipe.tintId)),
+      borderColor: currentPrint.borderColor,
+      formatId: currentPrint.formatId,
+      rawUrl: currentPrint.rawUrl,
+      recipe: currentPrint.recipe
     };
 
-    setPhotos((prev) => [...prev, newPhoto]);
-    setSelectedPhotoId(newId);
+    updateWall('Add photo', (prev) => [...prev, { ...newPhoto, z: nextZ(prev) }]);
+    setSelectedIds([newId]);
     
     setCurrentPrint(null);
     setIsPrinting(false);
+    return newId;
+  };
+
+  // Accepts PointerEvent now
+  const handleDragFromCamera = (e: React.PointerEvent) => {
+    // Where the print was grabbed, on the wall as it's currently panned and zoomed.
+    placePrint(wallView.toWorld(e.clientX, e.clientY));
+  };
+
+  // From the keyboard the print goes on the middle of the view, and focus
+  // follows it there.
+  const handlePlacePrint = () => {
+    const id = placePrint(rectCenter(visibleWorldRect(viewport, wallView.size.width, wallView.size.height)));
+    if (!id) return;
+    setFocusId(id);
+    announce('Photo added to the wall');
+  };
+
+  useEffect(() => {
+    if (!focusId) return;
+    wallRef.current?.querySelector<HTMLElement>(`[data-item-id="${focusId}"]`)?.focus();
+    setFocusId(null);
+  }, [focusId, items]);
+
+  const transformSelection = (mode: SelectionGestureMode, updates: Map<string, ItemTransform>) => {
+    const label = `${GESTURE_LABELS[mode]} ${describeItems(items.filter(p => updates.has(p.id)))}`;
+    updateWall(label, prev => prev.map(p => {
+      const update = updates.get(p.id);
+      return update ? { ...p, ...update } : p;
+    }), 'selection');
   };
 
-  const updatePhotoPosition = (id: string, x: number, y: number) => {
-    setPhotos(prev => prev.map(p => p.id === id ? { ...p, x, y } : p));
+  // The topmost photo under a world point, ignoring `exclude`.
+  const photoAt = (point: Point, exclude: string[]) => {
+    const byId = new Map(photos.map(p => [p.id, p]));
+    return stackingOrder(photos)
+      .reverse()
+      .map(id => byId.get(id) as PhotoData)
+      .find(p => !exclude.includes(p.id) && itemContains(p, point));
   };
 
-  const updatePhotoTransform = (id: string, rotation: number, scale: number) => {
-    setPhotos(prev => prev.map(p => p.id === id ? { ...p, rotation, scale } : p));
+  // A click on a stack fans it out; with stacking on, a drag dropped onto
+  // another photo piles onto it. Tape and pins take hold of whatever photo
+  // they're dropped on. All of it finishes the gesture's undo step.
+  const handleGestureEnd = (mode: SelectionGestureMode, ids: string[], pointer: Point, moved: boolean) => {
+    if (mode === 'move' && !moved) {
+      const stackIds = new Set(ids.map(id => photos.find(p => p.id === id)?.stackId));
+      const [stackId] = [...stackIds];
+      if (stackIds.size === 1 && stackId) {
+        setFannedStackId(stackId);
+        setSelectedIds([]);
+      }
+    } else if (mode === 'move') {
+      const dropped = items.filter(p => ids.includes(p.id));
+      if (dropped.some(canAttach)) {
+        updateWall(`Move ${describeItems(dropped)}`, prev => attachDropped(prev, ids), 'selection');
+      }
+      const target = stackOnDrop && dropped.some(isPhoto) ? photoAt(pointer, ids) : undefined;
+      if (target) updateWall('Stack photos', prev => snapIntoStack(prev, ids, target.id), 'selection');
+    }
+    history.endGesture();
   };
 
-  const deletePhoto = (id: string) => {
-    setPhotos(prev => prev.filter(p => p.id !== id));
+  const selectionGesture = useSelectionGesture(wallView.toWorld, transformSelection, handleGestureEnd);
+  // A trackpad pinch over an item resizes the selection if the item is in
+  // it; otherwise it selects the item (or its stack) and resizes that.
+  const pinchItem = (id: string, factor: number, client: Point) => {
+    const item = items.find(p => p.id === id);
+    if (!item || fan.has(id)) return;
+    const pressed = isPhoto(item) && item.stackId ? stackMembers(items, item.stackId).map(p => p.id) : [id];
+    const ids = selectedIds.includes(id) ? selectedIds : pressed;
+    if (ids !== selectedIds) setSelectedIds(ids);
+    selectionGesture.pinchBy(items.filter(p => ids.includes(p.id)), factor, client);
   };
 
+  const marquee = useMarqueeSelection(wallView.toWorld, items, selectedIds, setSelectedIds);
+
+  const addStroke = (points: Point[]) => {
+    // Drawn at a steady on-screen width, whatever the zoom.
+    const stroke = createStroke(points, penColor, PEN_WIDTH / viewport.zoom);
+    if (stroke) updateWall('Draw', prev => [...prev, { ...stroke, z: nextZ(prev) }]);
+  };
+
+  const pen = usePenStroke(wallView.toWorld, addStroke);
+
+  // Empty wall space pans with the pan tool (a tap deselects) and draws a
+  // marquee with the select tool or shift/ctrl/cmd. Middle mouse always pans.
+  const handleWallPointerDown = (e: React.PointerEvent) => {
+    if (selectionGesture.join(e)) return;
+    const additive = e.shiftKey || e.ctrlKey || e.metaKey;
+    if (e.button === 1) {
+      wallView.beginPan(e);
+    } else if (e.button === 0 && wallTool === 'draw') {
+      pen.begin(e);
+    } else if (e.button === 0 && wallTool === 'pan' && !additive) {
+      wallView.beginPan(e, () => {
+        setSelectedIds([]);
+        setFannedStackId(null);
+      });
+    } else if (e.button === 0) {
+      marquee.begin(e);
+    }
+  };
+
+  // Shift/ctrl/cmd-click toggles an item in the selection; a plain press on
+  // an unselected item selects just it (or its photo's whole stack). Either
+  // way the press raises what's selected and drags it. A second finger during
+  // a drag pinches instead, wherever it lands. The pen draws over everything.
+  const handleItemPointerDown = (e: React.PointerEvent, id: string) => {
+    if (selectionGesture.join(e)) return;
+    if (e.button === 1) {
+      wallView.beginPan(e);
+      return;
+    }
+    if (e.button === 0 && wallTool === 'draw') {
+      pen.begin(e);
+      return;
+    }
+    if (e.shiftKey || e.ctrlKey || e.metaKey) {
+      setSelectedIds(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+      return;
+    }
+    const item = items.find(p => p.id === id);
+    if (!item) return;
+
+    // A card in a fanned-out stack is taken out of it, from where it's shown.
+    const fanned = fan.get(id);
+    if (fanned) {
+      const taken = { ...item, ...fanned };
+      updateWall('Take from stack', prev =>
+        applyZOrder(unstack(prev.map(p => p.id === id ? { ...p, ...fanned } : p), [id]), [id], 'front'),
+        'selection'
+      );
+      if (fannedMembers.length <= 2) setFannedStackId(null);
+      setSelectedIds([id]);
+      selectionGesture.begin('move', e, [taken]);
+      return;
+    }
+
+    const pressed = isPhoto(item) && item.stackId ? stackMembers(items, item.stackId).map(p => p.id) : [id];
+    const ids = selectedIds.includes(id) ? [...new Set([...selectedIds, ...pressed])] : pressed;
+    setSelectedIds(ids);
+    setFannedStackId(null);
+    updateWall(Z_ORDER_LABELS.front, prev => applyZOrder(prev, ids, 'front'), 'selection');
+    selectionGesture.begin('move', e, items.filter(p => ids.includes(p.id)));
+  };
+
+  const arrangeSelection = (action: ZOrderAction) => {
+    updateWall(Z_ORDER_LABELS[action], prev => applyZOrder(prev, selectedIds, action));
+  };
+
+  // Lays out the selected photos, or all of them with fewer than two
+  // selected, as one undo step. Then the view follows them there.
+  const arrangePhotos = (layout: WallLayout) => {
+    const ids = (selectedPhotos.length > 1 ? selectedPhotos : photos).map(p => p.id);
+    const view = visibleWorldRect(viewport, wallView.size.width, wallView.size.height);
+    const arranged = arrangeWall(items, ids, layout, view);
+    if (arranged === items) return;
+    setFannedStackId(null);
+    setIsArranging(true);
+    updateWall(`Arrange ${describeItems(photos.filter(p => ids.includes(p.id)))}: ${LAYOUT_LABELS[layout]}`, () => arranged);
+    if (layout !== 'collage') {
+      wallView.fitTo(unionBounds(arranged.filter(p => ids.includes(p.id) || (isDecoration(p) && p.fromLayout)).map(itemBounds)));
+    }
+    announce(`Arranged as a ${LAYOUT_LABELS[layout].toLowerCase()}`);
+  };
+
+  useEffect(() => {
+    if (!isArranging) return;
+    const timer = setTimeout(() => setIsArranging(false), ARRANGE_DURATION);
+    return () => clearTimeout(timer);
+  }, [isArranging]);
+
+  const unstackSelection = () => {
+    updateWall('Unstack photos', prev => unstack(prev, selectedIds));
+  };
+
+  const startWriting = (id: string) => {
+    setSelectedIds([id]);
+    setWritingId(id);
+  };
+
+  // Typing merges into one undo step per editing session. A doodle left
+  // empty is taken off the wall again, inside that same step.
+  const finishWriting = () => {
+    const doodle = items.find(p => p.id === writingId);
+    if (doodle && isDecoration(doodle) && doodle.kind === 'text' && !doodle.text.trim()) {
+      updateWall('Write doodle', prev => prev.filter(p => p.id !== doodle.id), `text:${doodle.id}`);
+    }
+    setWritingId(null);
+    history.endGesture();
+  };
+
+  const updateCaption = (id: string, label: string, patch: Partial<PhotoCaption>, gesture?: string) => {
+    updateWall(label, prev => prev.map(p => p.id === id && isPhoto(p) ? { ...p, caption: { ...captionOf(p), ...patch } } : p), gesture);
+  };
+
+  const updateBack = (id: string, text: string) => {
+    updateWall('Write on back', prev => prev.map(p => p.id === id && isPhoto(p) ? { ...p, back: text } : p), `back:${id}`);
+  };
+
+  const updateDoodle = (id: string, label: string, patch: { text?: string; fontId?: string; color?: string }, gesture?: string) => {
+    updateWall(label, prev => prev.map(p => p.id === id && isDecoration(p) && p.kind === 'text' ? { ...p, ...patch } : p), gesture);
+  };
+
+  // The pen panel styles whatever is being written: a caption or a doodle.
+  const styleWriting = (id: string, patch: Partial<PhotoCaption>) => {
+    const item = items.find(p => p.id === id);
+    if (item && isDecoration(item)) updateDoodle(id, 'Doodle style', { fontId: patch.fontId, color: patch.color });
+    else updateCaption(id, 'Caption style', patch);
+  };
+
+  // Turns the whole selection over together, face down if any are face up.
+  const flipSelection = () => {
+    if (writingId) finishWriting();
+    const flipped = selectedPhotos.some(p => !p.flipped);
+    updateWall(selectedPhotos.length === 1 ? 'Flip photo' : 'Flip photos', prev =>
+      prev.map(p => isPhoto(p) && selectedIds.includes(p.id) ? { ...p, flipped } : p)
+    );
+  };
+
+  // New things go on the middle of the view. Tape and pins added with one
+  // photo selected go onto that photo and hold it.
+  const addDecoration = (draft: DecorationDraft) => {
+    const target = selectedPhotos.length === 1 && selectedItems.length === 1 ? selectedPhotos[0] : null;
+    const tilt = draft.kind === 'pin' || draft.kind === 'text' ? 0 : Math.random() * 20 - 10;
+    const center = rectCenter(visibleWorldRect(viewport, wallView.size.width, wallView.size.height));
+    const decoration = target && (draft.kind === 'tape' || draft.kind === 'pin')
+      ? decorationOnPhoto(draft, target)
+      : createDecoration(draft, center, tilt);
+    const label = draft.kind === 'text' ? 'Write doodle' : `Add ${DECORATION_LABELS[draft.kind]}`;
+    updateWall(label, prev => [...prev, { ...decoration, z: nextZ(prev) }], draft.kind === 'text' ? `text:${decoration.id}` : undefined);
+    setSelectedIds([decoration.id]);
+    if (draft.kind === 'text') setWritingId(decoration.id);
+  };
+
+  // Tabbing to an item selects it (or its stack) and brings it into view.
+  const focusItem = (id: string) => {
+    const item = items.find(p => p.id === id);
+    if (!item || selectedIds.includes(id)) return;
+    setSelectedIds(isPhoto(item) && item.stackId ? stackMembers(items, item.stackId).map(p => p.id) : [id]);
+    setFannedStackId(null);
+    const center = rectCenter(itemBounds(item));
+    const onScreen = toScreen(viewport, center);
+    if (onScreen.x < 0 || onScreen.y < 0 || onScreen.x > wallView.size.width || onScreen.y > wallView.size.height) {
+      wallView.centerOn(center);
+    }
+  };
+
+  // Keyboard steps for the selection. Holding a key repeats into one undo
+  // step, which ends when the key comes up.
+  const stepSelection = (mode: SelectionGestureMode, step: { dx?: number; dy?: number; angle?: number; factor?: number }) => {
+    const bounds = unionBounds(selectedItems.map(itemBounds));
+    if (!bounds) return;
+    const poses = selectedItems.map(itemPose);
+    const factor = step.factor && clampGroupFactor(poses, step.factor);
+    transformSelection(mode, transformGroup(poses, rectCenter(bounds), { ...step, factor }));
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTextInput(e.target)) return;
+      if (e.key === 'Escape') {
+        setSelectedIds([]);
+        setFannedStackId(null);
+        if (wallTool === 'draw') setWallTool('pan');
+        return;
+      }
+      if (!isWallKeyTarget(e.target, wallRef.current)) return;
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'a') {
+        e.preventDefault();
+        setSelectedIds(items.map(p => p.id));
+        return;
+      }
+      if (selectedIds.length === 0 || e.ctrlKey || e.metaKey || e.altKey) return;
+
+      const nudge = (e.shiftKey ? NUDGE_STEP_LARGE : NUDGE_STEP) / viewport.zoom;
+      const turn = e.shiftKey ? ROTATE_STEP_LARGE : ROTATE_STEP;
+      switch (e.key) {
+        case 'ArrowLeft': stepSelection('move', { dx: -nudge }); break;
+        case 'ArrowRight': stepSelection('move', { dx: nudge }); break;
+        case 'ArrowUp': stepSelection('move', { dy: -nudge }); break;
+        case 'ArrowDown': stepSelection('move', { dy: nudge }); break;
+        case '[': stepSelection('rotate', { angle: -turn }); break;
+        case ']': stepSelection('rotate', { angle: turn }); break;
+        case '+':
+        case '=': stepSelection('scale', { factor: SCALE_STEP }); break;
+        case '-':
+        case '_': stepSelection('scale', { factor: 1 / SCALE_STEP }); break;
+        case 'Delete':
+        case 'Backspace': deleteItems(selectedIds); break;
+        default: return;
+      }
+      e.preventDefault();
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (STEP_KEYS.includes(e.key)) history.endGesture();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  });
+
+  // Re-runs the film on the stored raw frame, keeping the grain seed so only
+  // the look changes. The previous look is pushed for undo.
+  const redevelopPhoto = async (id: string, tintId: string, flash: boolean) => {
+    const photo = photos.find(p => p.id === id);
+    const stock = getFilmStocks().find(s => s.id === tintId);
+    if (!photo?.rawUrl || !photo.recipe || !stock) return;
+
+    const recipe: FilmRecipe = { ...photo.recipe, tintId, flash };
+    const rawUrl = await resolveImageUrl(photo.rawUrl);
+    const url = await redevelopFilm(rawUrl, getFilmFormat(photo.formatId).frames, stock, recipe);
+    updateWall('Re-develop', prev => prev.map(p => p.id === id && isPhoto(p) && p.recipe ? {
+      ...p,
+      url,
+      recipe,
+      developHistory: [...(p.developHistory ?? []), { url: p.url, recipe: p.recipe }]
+    } : p));
+  };
+
+  const undoRedevelop = (id: string) => {
+    updateWall('Restore look', prev => prev.map(p => {
+      if (p.id !== id || !isPhoto(p) || !p.developHistory?.length) return p;
+      const previous = p.developHistory[p.developHistory.length - 1];
+      return { ...p, url: previous.url, recipe: previous.recipe, developHistory: p.developHistory.slice(0, -1) };
+    }));
+  };
+
+  // Tape and pins go with the photo they hold.
+  const deleteItems = (ids: string[]) => {
+    const doomed = items.filter(p => ids.includes(p.id) || ids.includes(hostOf(p) ?? ''));
+    const deleted = items.flatMap((item, index) => doomed.includes(item) ? [{ item, index }] : []);
+    if (deleted.length === 0) return;
+    setDeletedToast(deleted);
+    setSelectedIds([]);
+    announce(describeDone(deleted.map(d => d.item), 'deleted'));
+    updateWall(`Delete ${describeItems(items.filter(p => ids.includes(p.id)))}`, prev => prev.filter(p => !doomed.some(d => d.id === p.id)));
+  };
+
+  // The toast brings back those items specifically, whatever happened since.
+  // Indices are ascending, so inserting in order rebuilds the original stacking.
+  const restoreDeletedItems = () => {
+    if (!deletedToast) return;
+    setDeletedToast(null);
+    updateWall(`Restore ${describeItems(deletedToast.map(d => d.item))}`, prev => {
+      const next = [...prev];
+      deletedToast.forEach(({ item, index }) => {
+        if (!next.some(p => p.id === item.id)) next.splice(Math.min(index, next.length), 0, item);
+      });
+      return next;
+    });
+  };
+
+  // Undo history, the selection and toasts all belong to the wall being left.
+  const switchBoard = (id: string) => {
+    if (id === board.id) return;
+    setWritingId(null);
+    setSelectedIds([]);
+    setFannedStackId(null);
+    setDeletedToast(null);
+    setSentToast(null);
+    history.clear();
+    boardList.setActiveId(id);
+  };
+
+  const createNewBoard = () => {
+    const created = createBoard(freeBoardName(boardList.boards, 'New Board'));
+    boardList.add(created);
+    switchBoard(created.id);
+  };
+
+  const renameBoard = (name: string) => {
+    boardList.update(board.id, { name: cleanBoardName(name) || board.name });
+  };
+
+  // The copy starts where the original is looking, with its own ids.
+  const duplicateBoard = async () => {
+    const copy = createBoard(freeBoardName(boardList.boards, board.name), board.backgroundId);
+    boardList.add(copy);
+    saveViewport(copy.id, viewport);
+    await wallStorage.addToBoard(copy.id, cloneItems(items));
+    switchBoard(copy.id);
+  };
+
+  const deleteBoard = async () => {
+    const next = boardList.boards.find(b => b.id !== board.id);
+    if (!next) return;
+    const doomed = board.id;
+    setSelectedIds([]);
+    setDeletedToast(null);
+    history.clear();
+    await wallStorage.clear();
+    forgetViewport(doomed);
+    boardList.remove(doomed);
+    switchBoard(next.id);
+  };
+
+  // Moves the selection, with the tape and pins on it, onto another board.
+  // Cards taken from a stack leave it; tape sent without its photo comes
+  // loose. The other board gets copies with their own ids, so a save of
+  // this wall still in flight can't claim them back; the originals leave
+  // only once the copies are stored. Not undoable, since the items are no
+  // longer on this wall; steps that touched them are forgotten too.
+  const sendToBoard = async (targetId: string) => {
+    const target = boardList.boards.find(b => b.id === targetId);
+    if (!target || target.id === board.id) return;
+    const sentIds = new Set(items.filter(p => selectedIds.includes(p.id) || selectedIds.includes(hostOf(p) ?? '')).map(p => p.id));
+    if (sentIds.size === 0) return;
+    const leavingIds = items
+      .filter(p => sentIds.has(p.id) && isPhoto(p) && p.stackId && stackMembers(items, p.stackId).some(m => !sentIds.has(m.id)))
+      .map(p => p.id);
+    const sent = unstack(items, leavingIds)
+      .filter(p => sentIds.has(p.id))
+      .map(p => isDecoration(p) && hostOf(p) && !sentIds.has(hostOf(p) as string) ? { ...p, attachedTo: undefined } : p);
+
+    if (!(await wallStorage.addToBoard(target.id, cloneItems(sent)))) {
+      announce(`Could not send to ${target.name}`);
+      return;
+    }
+    setItems(current => unstack(current, leavingIds).filter(p => !sentIds.has(p.id)));
+    history.forget(sentIds);
+    setSelectedIds(prev => prev.filter(id => !sentIds.has(id)));
+    setDeletedToast(null);
+    const message = describeDone(sent, `sent to ${target.name}`);
+    setSentToast({ message, boardId: target.id });
+    announce(message);
+  };
+
+  const setBoardBackground = (backgroundId: string) => {
+    boardList.update(board.id, { backgroundId });
+  };
+
+  // Saves each developed photo as its own file, with the tape and pins on it;
+  // ones still developing are skipped, since an export now would show a
+  // picture the print doesn't have yet.
+  const downloadPhotos = async (ids: string[]) => {
+    for (const photo of photos.filter(p => ids.includes(p.id) && !p.isDeveloping)) {
+      try {
+        const held = items.filter((p): p is Decoration => hostOf(p) === photo.id);
+        const canvas = await renderCardCanvas(photo, undefined, held);
+        downloadCanvas(canvas, `pulsesnap-${photo.id}.jpg`);
+      } catch (err) {
+        console.error('save failed', err);
+      }
+    }
+  };
+
+  // The backs are their own images, saved alongside the fronts when asked for.
+  const downloadBacks = async (ids: string[]) => {
+    for (const photo of photos.filter(p => ids.includes(p.id) && p.back?.trim())) {
+      try {
+        const canvas = await renderCardBackCanvas(photo);
+        downloadCanvas(canvas, `pulsesnap-${photo.id}-back.jpg`);
+      } catch (err) {
+        console.error('save failed', err);
+      }
+    }
+  };
+
+  // The wall drawn in code rather than screenshotted, so it's sharp at any
+  // multiplier. A selection takes the tape and pins on it along. Prints
+  // still developing would come out half-done, so that needs a second ask.
+  const exportWall = async (scope: WallExportScope, format: WallExportFormat, scale: number, anyway = false) => {
+    const chosen = scope === 'selection'
+      ? items.filter(p => selectedIds.includes(p.id) || selectedIds.includes(hostOf(p) ?? ''))
+      : items;
+    const area = scope === 'view' ? visibleWorldRect(viewport, wallView.size.width, wallView.size.height) : exportArea(chosen);
+    if (!area || chosen.length === 0) return;
+    const developing = chosen.filter(p => isPhoto(p) && p.isDeveloping && rectsIntersect(itemBounds(p), area)).length;
+    if (developing > 0 && !anyway) {
+      const message = developing === 1 ? 'A print is still developing' : `${developing} prints are still developing`;
+      setExportNotice({ message, retry: () => exportWall(scope, format, scale, true) });
+      announce(message);
+      return;
+    }
+    const name = board.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'wall';
+    setIsExporting(true);
+    try {
+      let notice = 'Wall exported';
+      if (format === 'pdf') {
+        downloadBlob(await renderWallPdf(chosen, area, background, scale), `pulsesnap-${name}.pdf`);
+      } else {
+        const fitted = fitExportScale(area, scale);
+        downloadBlob(await renderWallPng(chosen, area, background, fitted), `pulsesnap-${name}.png`);
+        if (fitted < scale) notice = `Too big for ${scale}x; exported at ${fitted.toFixed(1)}x`;
+      }
+      setExportNotice({ message: notice });
+      announce(notice);
+    } catch (err) {
+      console.error('export failed', err);
+      setExportNotice({ message: 'Could not export the wall' });
+      announce('Could not export the wall');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const marqueeCorner = marquee.rect && toScreen(viewport, { x: marquee.rect.left, y: marquee.rect.top });
+  // The fan is only for show, but tape and pins still travel with their cards.
+  const shownItems = fan.size > 0 ? followAttachments(items, items.map(p => fan.has(p.id) ? { ...p, ...fan.get(p.id) } : p)) : items;
+  const layers = new Map(stackingOrder(items).map((id, layer) => [id, layer]));
+
   return (
-    <div 
-      className="w-screen h-screen overflow-hidden relative bg-slate-200"
-      onMouseDown={() => setSelectedPhotoId(null)} 
-      onTouchStart={() => setSelectedPhotoId(null)} // Deselect on touch background
-    >
+    <div className="w-screen h-screen overflow-hidden relative" style={{ backgroundColor: background.color }}>
       {/* Instructional Text */}
-      <div className="absolute top-10 left-0 w-full text-center pointer-events-none z-0 opacity-50">
+      <div className="absolute top-20 left-0 w-full text-center pointer-events-none z-0 opacity-50">
          <h1 className="font-hand text-4xl text-slate-400 mb-2">PulseSnap</h1>
          <p className="font-sans text-slate-500 text-sm">Snap, Drag, Collect.</p>
          <p className="font-sans text-slate-400 text-xs mt-1">Direct Flash • Cool Tones • Instant Vibes</p>
       </div>
 
-      {/* The Photo Wall Area */}
-      <div className="w-full h-full relative z-0">
-        {photos.map(photo => (
-          <Photo 
-            key={photo.id} 
-            data={photo} 
-            isSelected={selectedPhotoId === photo.id}
-            onSelect={() => setSelectedPhotoId(photo.id)}
-            onUpdatePosition={updatePhotoPosition} 
-            onUpdateTransform={updatePhotoTransform}
-            onDelete={deletePhoto}
+      {/* The Photo Wall Area - an endless surface seen through the viewport */}
+      <div
+        ref={wallRef}
+        role="region"
+        aria-label="Photo wall"
+        // Clipped rather than hidden, so focusing an item off-screen can't scroll the wall.
+        className={`absolute inset-0 z-0 overflow-clip ${wallView.isPanning ? 'cursor-grabbing' : wallTool === 'pan' ? 'cursor-grab' : 'cursor-crosshair'}`}
+        style={{
+          touchAction: 'none',
+          // The board's pattern, drawn on the wall so panning is visible even where it's empty.
+          backgroundImage: wallPatternCss(background),
+          backgroundSize: `${background.tile * viewport.zoom}px ${background.tile * viewport.zoom}px`,
+          backgroundPosition: `${viewport.x}px ${viewport.y}px`,
+        }}
+        onPointerDown={handleWallPointerDown}
+      >
+        <div
+          className="absolute left-0 top-0"
+          style={{
+            transform: `translate(${viewport.x}px, ${viewport.y}px) scale(${viewport.zoom})`,
+            transformOrigin: '0 0',
+          }}
+        >
+          {shownItems.map(item => isDecoration(item) ? (
+            <WallDecoration
+              key={item.id}
+              data={item}
+              zIndex={layers.get(item.id) ?? 0}
+              isSelected={selectedIds.includes(item.id)}
+              // Rides along with a stacked photo's glide.
+              isAnimated={isArranging || (!!photos.find(p => p.id === hostOf(item))?.stackId && !selectionGesture.mode)}
+              isWriting={writingId === item.id}
+              onPointerDown={handleItemPointerDown}
+              onWrite={startWriting}
+              onTextChange={(id, text) => updateDoodle(id, 'Write doodle', { text }, `text:${id}`)}
+              onWritingDone={finishWriting}
+              onKeyboardFocus={focusItem}
+            />
+          ) : (
+            <Photo 
+              key={item.id} 
+              data={item} 
+              zIndex={layers.get(item.id) ?? 0}
+              isSelected={selectedIds.includes(item.id)}
+              isDragging={(selectionGesture.mode === 'move' || selectionGesture.mode === 'pinch') && selectedIds.includes(item.id)}
+              isShaking={development.shakingIds.includes(item.id)}
+              // Stacks glide when they snap together or fan out, but not while dragged.
+              isAnimated={isArranging || (!!item.stackId && !selectionGesture.mode)}
+              isWriting={writingId === item.id}
+              onPointerDown={handleItemPointerDown}
+              onWrite={startWriting}
+              onCaptionChange={(id, text) => updateCaption(id, 'Edit caption', { text }, `caption:${id}`)}
+              onBackChange={updateBack}
+              onWritingDone={finishWriting}
+              onKeyboardFocus={focusItem}
+            />
+          ))}
+
+          {pen.points && (
+            <svg className="absolute left-0 top-0 overflow-visible pointer-events-none" width={1} height={1} style={{ zIndex: items.length }}>
+              <path
+                d={strokePath(pen.points)}
+                fill="none"
+                stroke={penColor}
+                strokeWidth={PEN_WIDTH / viewport.zoom}
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              />
+            </svg>
+          )}
+        </div>
+
+        {selectedItems.length > 0 && (
+          <SelectionBox
+            // Remounts per selection so an open re-develop picker closes with it.
+            key={selectedIds.join()}
+            items={selectedItems}
+            viewport={viewport}
+            onGestureStart={(mode, e) => selectionGesture.begin(mode, e, selectedItems)}
+            onDownload={() => downloadPhotos(selectedIds)}
+            onDownloadBack={() => downloadBacks(selectedIds)}
+            onDelete={() => deleteItems(selectedIds)}
+            onShake={() => selectedPhotos.forEach(p => p.isDeveloping && development.shake(p.id))}
+            onPauseDevelop={(paused) => selectedPhotos.forEach(p => development.setPaused(p.id, paused))}
+            onRedevelop={redevelopPhoto}
+            onUndoRedevelop={undoRedevelop}
+            onArrange={arrangeSelection}
+            onUnstack={unstackSelection}
+            isWriting={!!writingId && selectedIds.includes(writingId)}
+            onWrite={(editing) => editing ? startWriting(selectedIds[0]) : finishWriting()}
+            onCaptionStyle={(patch) => styleWriting(selectedIds[0], patch)}
+            onFlip={flipSelection}
           />
-        ))}
+        )}
+
+        {marqueeCorner && marquee.rect && (
+          <div
+            className="absolute border border-blue-400 bg-blue-400/10 rounded-sm pointer-events-none"
+            style={{
+              left: marqueeCorner.x,
+              top: marqueeCorner.y,
+              width: (marquee.rect.right - marquee.rect.left) * viewport.zoom,
+              height: (marquee.rect.bottom - marquee.rect.top) * viewport.zoom,
+              zIndex: 70,
+            }}
+          />
+        )}
       </div>
 
+      <div className="fixed top-4 left-4 z-40 flex flex-col items-start gap-2">
+        <ZoomControls
+          zoom={viewport.zoom}
+          tool={wallTool}
+          onToolChange={setWallTool}
+          stackOnDrop={stackOnDrop}
+          onStackOnDropChange={setStackOnDrop}
+          onZoomIn={() => wallView.zoomBy(WALL_ZOOM_STEP)}
+          onZoomOut={() => wallView.zoomBy(1 / WALL_ZOOM_STEP)}
+          onResetZoom={() => wallView.zoomBy(1 / viewport.zoom)}
+          onFit={() => wallView.fitTo(unionBounds(items.map(itemBounds)))}
+        />
+        <DecorationPalette
+          isDrawing={wallTool === 'draw'}
+          onDrawingChange={(drawing) => setWallTool(drawing ? 'draw' : 'pan')}
+          penColor={penColor}
+          onPenColorChange={setPenColor}
+          onAdd={addDecoration}
+        />
+        <ArrangeMenu
+          hasSelection={selectedPhotos.length > 1}
+          disabled={photos.length < 2}
+          onArrange={arrangePhotos}
+        />
+        <ExportMenu
+          hasSelection={selectedIds.length > 0}
+          disabled={items.length === 0}
+          isExporting={isExporting}
+          onExport={exportWall}
+        />
+        <div className="hidden md:block">
+          <Minimap
+            photos={photos}
+            viewport={viewport}
+            screenWidth={wallView.size.width}
+            screenHeight={wallView.size.height}
+            onNavigate={wallView.centerOn}
+          />
+        </div>
+      </div>
+
+      <BoardSwitcher
+        boards={boardList.boards}
+        active={board}
+        selectionCount={selectedIds.length}
+        disabled={wallStorage.status === 'loading'}
+        onSwitch={switchBoard}
+        onCreate={createNewBoard}
+        onRename={renameBoard}
+        onDuplicate={duplicateBoard}
+        onDelete={deleteBoard}
+        onBackgroundChange={setBoardBackground}
+        onSendSelection={sendToBoard}
+      />
+
+      <WallToolbar
+        photoCount={photos.length}
+        decorationCount={items.length - photos.length}
+        status={wallStorage.status}
+        storage={wallStorage.storage}
+        isStorageLow={wallStorage.isStorageLow}
+        saveError={wallStorage.saveError}
+        onClearWall={() => {
+          setSelectedIds([]);
+          setDeletedToast(null);
+          history.clear();
+          wallStorage.clear();
+        }}
+        undoLabel={history.undoLabel}
+        redoLabel={history.redoLabel}
+        onUndo={history.undo}
+        onRedo={history.redo}
+      />
+
+      {deletedToast && (
+        <Toast
+          message={describeDone(deletedToast.map(d => d.item), 'deleted')}
+          actionLabel="Undo"
+          onAction={restoreDeletedItems}
+          onDismiss={() => setDeletedToast(null)}
+        />
+      )}
+
+      {exportNotice && !deletedToast && !sentToast && (
+        <Toast
+          message={exportNotice.message}
+          actionLabel={exportNotice.retry && 'Export Anyway'}
+          onAction={() => {
+            setExportNotice(null);
+            exportNotice.retry?.();
+          }}
+          onDismiss={() => setExportNotice(null)}
+        />
+      )}
+
+      {sentToast && !deletedToast && (
+        <Toast
+          message={sentToast.message}
+          actionLabel="Open"
+          onAction={() => switchBoard(sentToast.boardId)}
+          onDismiss={() => setSentToast(null)}
+        />
+      )}
+
       {/* The Camera - Center on mobile, Left on Desktop */}
       <div className="fixed bottom-0 left-1/2 -translate-x-1/2 md:translate-x-0 md:left-10 z-50 mb-[-20px]">
         <PolaroidCamera 
@@ -117,10 +974,18 @@ export default function App() {
           isPrinting={isPrinting}
           currentPrintUrl={currentPrint?.url || null}
           currentPrintColor={currentPrint?.borderColor}
+          currentPrintFormatId={currentPrint?.formatId}
+          queuedPrints={printQueue.length}
           onDragStartFromCamera={handleDragFromCamera}
+          onPlacePrint={handlePlacePrint}
+          onAnnounce={announce}
         />
       </div>
 
+      <div className="sr-only" role="status" aria-live="polite">
+        {announcement}
+      </div>
+
       <div className="fixed bottom-2 right-4 text-xs text-gray-400 font-sans pointer-events-none hidden md:block">
         PulseSnap Instant Camera
       </div>
@@ -0,0 +1,60 @@
+import React, { useState } from "react";
+import { CalendarRange, LayoutDashboard, LayoutGrid, Shuffle, WandSparkles } from "lucide-react";
+import { LAYOUT_LABELS, WallLayout } from "../utils/layouts";
+
+interface ArrangeMenuProps {
+  hasSelection: boolean; // Arranges the selected photos rather than all of them
+  disabled: boolean;
+  onArrange: (layout: WallLayout) => void;
+}
+
+const LAYOUT_ICONS: Record<WallLayout, React.ReactNode> = {
+  grid: <LayoutGrid size={16} />,
+  timeline: <CalendarRange size={16} />,
+  scatter: <Shuffle size={16} />,
+  collage: <LayoutDashboard size={16} />,
+};
+
+const LAYOUT_HINTS: Record<WallLayout, string> = {
+  grid: "tidy rows and columns",
+  timeline: "oldest first, split by day",
+  scatter: "loose, without overlaps",
+  collage: "packed into the view",
+};
+
+const buttonClass =
+  "p-1.5 rounded-full text-gray-600 hover:bg-blue-50 hover:text-blue-600 transition-colors disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-gray-600";
+
+/** One-click layouts for the wall's photos, or just the selected ones. */
+export const ArrangeMenu: React.FC<ArrangeMenuProps> = ({ hasSelection, disabled, onArrange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const scope = hasSelection ? "Selected Photos" : "All Photos";
+
+  return (
+    <div className="flex items-center gap-1 bg-white/90 backdrop-blur-sm rounded-full p-1.5 shadow-sm border border-gray-200/60">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        aria-expanded={isOpen && !disabled}
+        className={`${buttonClass} ${isOpen && !disabled ? "bg-blue-50 text-blue-600" : ""}`}
+        title={`Arrange ${scope}`}
+      >
+        <WandSparkles size={16} />
+      </button>
+      {isOpen &&
+        !disabled &&
+        (Object.keys(LAYOUT_LABELS) as WallLayout[]).map((layout) => (
+          <button
+            key={layout}
+            type="button"
+            onClick={() => onArrange(layout)}
+            className={buttonClass}
+            title={`${LAYOUT_LABELS[layout]}: ${LAYOUT_HINTS[layout]}`}
+          >
+            {LAYOUT_ICONS[layout]}
+          </button>
+        ))}
+    </div>
+  );
+};
@@ -0,0 +1,194 @@
+import React, { useState } from "react";
+import { Check, ChevronDown, Copy, Pencil, Plus, Send, Trash2 } from "lucide-react";
+import { BOARD_NAME_MAX_LENGTH, WALL_BACKGROUNDS } from "../constants";
+import { Board } from "../types";
+
+interface BoardSwitcherProps {
+  boards: Board[];
+  active: Board;
+  selectionCount: number; // Items that could be sent to another board
+  disabled: boolean; // While a board is loading
+  onSwitch: (id: string) => void;
+  onCreate: () => void;
+  onRename: (name: string) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  onBackgroundChange: (backgroundId: string) => void;
+  onSendSelection: (id: string) => void;
+}
+
+const buttonClass =
+  "p-1.5 rounded-full text-gray-600 hover:bg-blue-50 hover:text-blue-600 transition-colors disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-gray-600";
+
+/**
+ * Picks which board is on the wall, and manages the boards: new, rename,
+ * duplicate, delete, background. Selected items can be sent to another one.
+ */
+export const BoardSwitcher: React.FC<BoardSwitcherProps> = ({
+  boards,
+  active,
+  selectionCount,
+  disabled,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onBackgroundChange,
+  onSendSelection,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draftName, setDraftName] = useState<string | null>(null);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+
+  const finishRename = () => {
+    if (draftName !== null) onRename(draftName);
+    setDraftName(null);
+  };
+
+  return (
+    <div
+      className="fixed top-4 left-1/2 -translate-x-1/2 z-40 flex flex-col items-center gap-2 font-sans text-[11px] text-gray-600"
+      onMouseDown={(e) => e.stopPropagation()}
+      onTouchStart={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center gap-1 bg-white/90 backdrop-blur-sm rounded-full p-1.5 shadow-sm border border-gray-200/60">
+        {draftName !== null ? (
+          <input
+            autoFocus
+            value={draftName}
+            maxLength={BOARD_NAME_MAX_LENGTH}
+            aria-label="Board name"
+            className="w-40 px-2 py-0.5 rounded-full bg-white border border-blue-300 outline-none text-[12px] font-semibold"
+            onChange={(e) => setDraftName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") finishRename();
+              if (e.key === "Escape") setDraftName(null);
+            }}
+            onBlur={finishRename}
+          />
+        ) : (
+          <button
+            type="button"
+            onClick={() => setIsOpen(!isOpen)}
+            aria-expanded={isOpen}
+            aria-haspopup="true"
+            className="flex items-center gap-1 max-w-[200px] px-2 py-0.5 rounded-full text-[12px] font-semibold text-gray-700 hover:bg-blue-50 hover:text-blue-600 transition-colors"
+            title="Switch Board"
+          >
+            <span className="truncate">{active.name}</span>
+            <ChevronDown size={14} className={`shrink-0 transition-transform ${isOpen ? "rotate-180" : ""}`} />
+          </button>
+        )}
+        <div className="w-[1px] h-4 bg-gray-300"></div>
+        <button
+          type="button"
+          onClick={() => setDraftName(active.name)}
+          className={buttonClass}
+          title="Rename Board"
+        >
+          <Pencil size={16} />
+        </button>
+        <button type="button" onClick={onDuplicate} disabled={disabled} className={buttonClass} title="Duplicate Board">
+          <Copy size={16} />
+        </button>
+        <button
+          type="button"
+          onClick={() => setIsConfirmingDelete(true)}
+          disabled={disabled || boards.length < 2}
+          className="p-1.5 rounded-full text-gray-600 hover:bg-red-50 hover:text-red-600 transition-colors disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-gray-600"
+          title={boards.length < 2 ? "The only board can't be deleted" : "Delete Board"}
+        >
+          <Trash2 size={16} />
+        </button>
+        <button type="button" onClick={onCreate} disabled={disabled} className={buttonClass} title="New Board">
+          <Plus size={16} />
+        </button>
+      </div>
+
+      {isConfirmingDelete && (
+        <div className="w-[240px] bg-[#fdfbf7] rounded-2xl shadow-[0_10px_30px_rgba(0,0,0,0.3)] border border-gray-200 p-3">
+          <p className="mb-2">
+            Delete “{active.name}” and everything on it? This can't be undone.
+          </p>
+          <div className="flex justify-end gap-1">
+            <button
+              type="button"
+              onClick={() => setIsConfirmingDelete(false)}
+              className="px-3 py-1 rounded-full hover:bg-gray-200"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setIsConfirmingDelete(false);
+                onDelete();
+              }}
+              className="px-3 py-1 rounded-full bg-red-600 text-white hover:bg-red-500"
+            >
+              Delete Board
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isOpen && (
+        <div className="w-[240px] bg-[#fdfbf7] rounded-2xl shadow-[0_10px_30px_rgba(0,0,0,0.3)] border border-gray-200 p-2">
+          <ul className="flex flex-col gap-0.5 max-h-[240px] overflow-y-auto" aria-label="Boards">
+            {boards.map((board) => (
+              <li key={board.id} className="flex items-center gap-1">
+                <button
+                  type="button"
+                  onClick={() => {
+                    onSwitch(board.id);
+                    setIsOpen(false);
+                  }}
+                  disabled={disabled}
+                  aria-current={board.id === active.id}
+                  className={`flex-1 flex items-center gap-1.5 min-w-0 px-2 py-1 rounded-lg text-left text-[12px] transition-colors ${
+                    board.id === active.id ? "bg-blue-50 text-blue-700 font-semibold" : "hover:bg-gray-200/60"
+                  }`}
+                >
+                  <span
+                    className="w-3 h-3 shrink-0 rounded-full border border-gray-300"
+                    style={{ backgroundColor: WALL_BACKGROUNDS.find((b) => b.id === board.backgroundId)?.color }}
+                  />
+                  <span className="truncate">{board.name}</span>
+                  {board.id === active.id && <Check size={12} className="ml-auto shrink-0" />}
+                </button>
+                {board.id !== active.id && selectionCount > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => onSendSelection(board.id)}
+                    disabled={disabled}
+                    className={buttonClass}
+                    title={`Send ${selectionCount === 1 ? "the selected item" : `${selectionCount} selected items`} to ${board.name}`}
+                  >
+                    <Send size={14} />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+          <div className="flex items-center gap-1.5 mt-2 pt-2 px-1 border-t border-gray-200">
+            <span className="text-[9px] font-bold uppercase tracking-widest text-gray-400">Wall</span>
+            {WALL_BACKGROUNDS.map((background) => (
+              <button
+                key={background.id}
+                type="button"
+                onClick={() => onBackgroundChange(background.id)}
+                aria-pressed={active.backgroundId === background.id}
+                title={background.name}
+                className={`w-4 h-4 rounded-full border border-gray-300 shadow-sm hover:scale-125 transition-all ${
+                  active.backgroundId === background.id ? "ring-2 ring-offset-1 ring-gray-400" : ""
+                }`}
+                style={{ backgroundColor: background.color }}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
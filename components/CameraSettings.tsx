@@ -0,0 +1,379 @@
+import React, { useRef } from "react";
+import { X, SwitchCamera, Camera, Monitor, ImagePlus, TestTube2 } from "lucide-react";
+import {
+  BURST_COUNT_OPTIONS,
+  BURST_INTERVAL_OPTIONS,
+  CAPTURE_RESOLUTIONS,
+  EXPOSURE_BLEND_MODES,
+  FILM_PACK_SIZES,
+} from "../constants";
+import { canCaptureScreen } from "../hooks/useMediaSource";
+import {
+  CameraFacing,
+  DriveMode,
+  ExposureBlend,
+  FilmPack,
+  MediaSourceKind,
+  MediaSourceSelection,
+} from "../types";
+
+interface CameraSettingsProps {
+  sourceKind: MediaSourceKind;
+  onSelectSource: (selection: MediaSourceSelection) => void;
+  onImportFile: (file: File) => void;
+  devices: MediaDeviceInfo[];
+  activeDeviceId: string | null;
+  facingMode: CameraFacing;
+  resolutionId: string;
+  mirrorOverride: boolean | null;
+  isMirrored: boolean;
+  onSelectDevice: (deviceId: string | null) => void;
+  onFlip: () => void;
+  onSelectResolution: (id: string) => void;
+  onMirrorOverrideChange: (value: boolean | null) => void;
+  driveMode: DriveMode;
+  burstCount: number;
+  burstInterval: number;
+  onDriveModeChange: (mode: DriveMode) => void;
+  onBurstCountChange: (count: number) => void;
+  onBurstIntervalChange: (ms: number) => void;
+  doubleExposure: boolean;
+  exposureBlend: ExposureBlend;
+  onDoubleExposureChange: (enabled: boolean) => void;
+  onExposureBlendChange: (blend: ExposureBlend) => void;
+  filmPack: FilmPack;
+  onFilmPackChange: (pack: FilmPack) => void;
+  onClose: () => void;
+}
+
+const MIRROR_OPTIONS: { value: boolean | null; label: string }[] = [
+  { value: null, label: "Auto" },
+  { value: true, label: "On" },
+  { value: false, label: "Off" },
+];
+
+const DRIVE_OPTIONS: { value: DriveMode; label: string }[] = [
+  { value: "single", label: "Single" },
+  { value: "burst", label: "Burst" },
+  { value: "booth", label: "Booth" },
+];
+
+export const CameraSettings: React.FC<CameraSettingsProps> = ({
+  sourceKind,
+  onSelectSource,
+  onImportFile,
+  devices,
+  activeDeviceId,
+  facingMode,
+  resolutionId,
+  mirrorOverride,
+  isMirrored,
+  onSelectDevice,
+  onFlip,
+  onSelectResolution,
+  onMirrorOverrideChange,
+  driveMode,
+  burstCount,
+  burstInterval,
+  onDriveModeChange,
+  onBurstCountChange,
+  onBurstIntervalChange,
+  doubleExposure,
+  exposureBlend,
+  onDoubleExposureChange,
+  onExposureBlendChange,
+  filmPack,
+  onFilmPackChange,
+  onClose,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const isFileSource = sourceKind === "image" || sourceKind === "video-file";
+
+  const sourceButton = (active: boolean) =>
+    `flex-1 flex flex-col items-center gap-0.5 px-1 py-1.5 rounded border ${
+      active
+        ? "bg-gray-800 text-white border-gray-800"
+        : "bg-white border-gray-300 hover:bg-gray-100"
+    }`;
+
+  const segment = (active: boolean) =>
+    `px-2 py-1 ${active ? "bg-gray-800 text-white" : "bg-white hover:bg-gray-100"}`;
+
+  return (
+    <div
+      className="absolute bottom-full mb-14 left-0 w-[320px] bg-[#fdfbf7] rounded-2xl shadow-[0_10px_30px_rgba(0,0,0,0.3)] border border-gray-200 p-4 pointer-events-auto z-50 font-sans text-[11px] text-gray-600"
+      onPointerDown={(e) => e.stopPropagation()}
+      onMouseDown={(e) => e.stopPropagation()}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <div className="text-[10px] text-gray-400 font-bold uppercase tracking-widest">Camera</div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1 rounded-full text-gray-500 hover:bg-gray-200"
+          title="Close"
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="flex gap-1 mb-3">
+        <button
+          type="button"
+          onClick={() => onSelectSource({ kind: "camera" })}
+          className={sourceButton(sourceKind === "camera")}
+        >
+          <Camera size={14} /> Camera
+        </button>
+        {canCaptureScreen() && (
+          <button
+            type="button"
+            onClick={() => onSelectSource({ kind: "screen" })}
+            className={sourceButton(sourceKind === "screen")}
+          >
+            <Monitor size={14} /> Screen
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className={sourceButton(isFileSource)}
+        >
+          <ImagePlus size={14} /> File
+        </button>
+        <button
+          type="button"
+          onClick={() => onSelectSource({ kind: "test-pattern" })}
+          className={sourceButton(sourceKind === "test-pattern")}
+        >
+          <TestTube2 size={14} /> Test
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*,video/*"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (file) onImportFile(file);
+          }}
+        />
+      </div>
+      <div className="text-[10px] text-gray-400 mb-3">
+        Tip: drop an image or video onto the camera.
+      </div>
+
+      {sourceKind === "camera" && (
+        <div className="flex flex-col gap-2 mb-2">
+          <label className="flex items-center gap-2">
+            <span className="w-16 shrink-0">Device</span>
+            <select
+              value={activeDeviceId ?? ""}
+              onChange={(e) => onSelectDevice(e.target.value || null)}
+              className="flex-1 min-w-0 px-2 py-1 rounded border border-gray-300 bg-white"
+            >
+              {!activeDeviceId && <option value="">Default</option>}
+              {devices.map((d, i) => (
+                <option key={d.deviceId || i} value={d.deviceId}>
+                  {d.label || `Camera ${i + 1}`}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <div className="flex items-center gap-2">
+            <span className="w-16 shrink-0">Facing</span>
+            <button
+              type="button"
+              onClick={onFlip}
+              className="flex items-center gap-1 px-2 py-1 rounded border border-gray-300 bg-white hover:bg-gray-100"
+            >
+              <SwitchCamera size={12} />
+              {facingMode === "user" ? "Front" : "Rear"}
+            </button>
+          </div>
+
+          <label className="flex items-center gap-2">
+            <span className="w-16 shrink-0">Resolution</span>
+            <select
+              value={resolutionId}
+              onChange={(e) => onSelectResolution(e.target.value)}
+              className="flex-1 px-2 py-1 rounded border border-gray-300 bg-white"
+            >
+              {CAPTURE_RESOLUTIONS.map((r) => (
+                <option key={r.id} value={r.id}>
+                  {r.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+
+      <div className="flex flex-col gap-2">
+        <div className="flex items-center gap-2">
+          <span className="w-16 shrink-0">Mirror</span>
+          <div className="flex rounded border border-gray-300 overflow-hidden">
+            {MIRROR_OPTIONS.map((opt) => (
+              <button
+                key={opt.label}
+                type="button"
+                onClick={() => onMirrorOverrideChange(opt.value)}
+                className={segment(mirrorOverride === opt.value)}
+              >
+                {opt.label}
+              </button>
+            ))}
+          </div>
+          {mirrorOverride === null && (
+            <span className="text-gray-400">{isMirrored ? "mirrored" : "not mirrored"}</span>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <span className="w-16 shrink-0">Drive</span>
+          <div className="flex rounded border border-gray-300 overflow-hidden">
+            {DRIVE_OPTIONS.map((opt) => (
+              <button
+                key={opt.value}
+                type="button"
+                onClick={() => onDriveModeChange(opt.value)}
+                className={segment(driveMode === opt.value)}
+              >
+                {opt.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {driveMode === "burst" && (
+          <div className="flex items-center gap-2">
+            <span className="w-16 shrink-0">Burst</span>
+            <select
+              value={burstCount}
+              onChange={(e) => onBurstCountChange(Number(e.target.value))}
+              className="px-2 py-1 rounded border border-gray-300 bg-white"
+            >
+              {BURST_COUNT_OPTIONS.map((n) => (
+                <option key={n} value={n}>
+                  {n} prints
+                </option>
+              ))}
+            </select>
+            <select
+              value={burstInterval}
+              onChange={(e) => onBurstIntervalChange(Number(e.target.value))}
+              className="px-2 py-1 rounded border border-gray-300 bg-white"
+            >
+              {BURST_INTERVAL_OPTIONS.map((ms) => (
+                <option key={ms} value={ms}>
+                  every {ms / 1000}s
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+        {driveMode === "booth" && (
+          <div className="text-[10px] text-gray-400">
+            Four frames on one strip, with a countdown before each.
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          <span className="w-16 shrink-0">Double</span>
+          <div className="flex rounded border border-gray-300 overflow-hidden">
+            <button
+              type="button"
+              onClick={() => onDoubleExposureChange(false)}
+              className={segment(!doubleExposure)}
+            >
+              Off
+            </button>
+            <button
+              type="button"
+              onClick={() => onDoubleExposureChange(true)}
+              disabled={driveMode === "burst"}
+              className={segment(doubleExposure)}
+            >
+              On
+            </button>
+          </div>
+          {driveMode === "burst" && <span className="text-gray-400">not in burst</span>}
+        </div>
+
+        {doubleExposure && (
+          <>
+            <div className="flex items-center gap-2">
+              <span className="w-16 shrink-0">Blend</span>
+              <div className="flex rounded border border-gray-300 overflow-hidden">
+                {EXPOSURE_BLEND_MODES.map((mode) => (
+                  <button
+                    key={mode}
+                    type="button"
+                    onClick={() => onExposureBlendChange({ ...exposureBlend, mode })}
+                    className={`capitalize ${segment(exposureBlend.mode === mode)}`}
+                  >
+                    {mode}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <label className="flex items-center gap-2">
+              <span className="w-16 shrink-0">Opacity</span>
+              <input
+                type="range"
+                min={0.1}
+                max={1}
+                step={0.05}
+                value={exposureBlend.opacity}
+                onChange={(e) =>
+                  onExposureBlendChange({ ...exposureBlend, opacity: Number(e.target.value) })
+                }
+                className="flex-1 accent-gray-700"
+              />
+              <span className="w-9 text-right tabular-nums">
+                {Math.round(exposureBlend.opacity * 100)}%
+              </span>
+            </label>
+          </>
+        )}
+
+        <div className="flex items-center gap-2">
+          <span className="w-16 shrink-0">Film pack</span>
+          <div className="flex rounded border border-gray-300 overflow-hidden">
+            <button
+              type="button"
+              onClick={() => onFilmPackChange({ ...filmPack, enabled: false })}
+              className={segment(!filmPack.enabled)}
+            >
+              Unlimited
+            </button>
+            <button
+              type="button"
+              onClick={() => onFilmPackChange({ ...filmPack, enabled: true })}
+              className={segment(filmPack.enabled)}
+            >
+              Packs
+            </button>
+          </div>
+          {filmPack.enabled && (
+            <select
+              value={filmPack.size}
+              onChange={(e) => onFilmPackChange({ ...filmPack, size: Number(e.target.value) })}
+              className="px-2 py-1 rounded border border-gray-300 bg-white"
+              title="Exposures per pack, from the next reload"
+            >
+              {FILM_PACK_SIZES.map((n) => (
+                <option key={n} value={n}>
+                  {n} shots
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
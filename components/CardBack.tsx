@@ -0,0 +1,87 @@
+import React from 'react';
+import { BACK_MAX_LENGTH } from '../constants';
+import { PhotoData } from '../types';
+import { CardGeometry } from '../utils/filmFormat';
+import { BACK_COLOR, BACK_PRINT_COLOR, BACK_PRINT_FAMILY, layoutBack } from '../utils/cardBack';
+
+interface CardBackProps {
+  photo: PhotoData;
+  geometry: CardGeometry;
+  className?: string;
+  style?: React.CSSProperties;
+  isEditing?: boolean;
+  onChange?: (text: string) => void;
+  onDone?: () => void;
+}
+
+/**
+ * The back of a print: a blank surface for a handwritten note, with the
+ * date and film printed small at the foot. Laid out like renderCardBackCanvas.
+ */
+export const CardBack: React.FC<CardBackProps> = ({
+  photo,
+  geometry,
+  className = '',
+  style,
+  isEditing = false,
+  onChange,
+  onDone,
+}) => {
+  const layout = layoutBack(photo, geometry);
+  const textStyle: React.CSSProperties = {
+    left: layout.margin,
+    top: layout.margin,
+    width: geometry.width - layout.margin * 2,
+    fontFamily: layout.family,
+    fontSize: layout.size,
+    lineHeight: `${layout.lineHeight}px`,
+    color: layout.color,
+  };
+
+  return (
+    <div
+      className={`relative overflow-hidden ${className}`}
+      style={{ width: geometry.width, height: geometry.height, backgroundColor: BACK_COLOR, ...style }}
+    >
+      {isEditing ? (
+        <textarea
+          autoFocus
+          value={photo.back ?? ''}
+          maxLength={BACK_MAX_LENGTH}
+          placeholder="Write on the back…"
+          aria-label="Note on the back"
+          className="absolute bg-transparent outline-none resize-none pointer-events-auto placeholder:text-gray-300"
+          style={{ ...textStyle, height: layout.printed.centerY - layout.printed.size * 2 - layout.margin }}
+          onPointerDown={(e) => e.stopPropagation()}
+          onChange={(e) => onChange?.(e.target.value)}
+          onKeyDown={(e) => {
+            // Enter is a new line here; Escape (or Ctrl/Cmd+Enter) puts the pen down.
+            if (e.key === 'Escape' || (e.key === 'Enter' && (e.ctrlKey || e.metaKey))) e.currentTarget.blur();
+          }}
+          onBlur={onDone}
+        />
+      ) : (
+        <div className="absolute pointer-events-none" style={textStyle}>
+          {layout.lines.map((line, i) => (
+            <p key={i} className="whitespace-pre" style={{ height: layout.lineHeight }}>
+              {line}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <p
+        className="absolute left-0 w-full text-center pointer-events-none"
+        style={{
+          top: layout.printed.centerY - layout.printed.size / 2,
+          fontFamily: BACK_PRINT_FAMILY,
+          fontSize: layout.printed.size,
+          lineHeight: `${layout.printed.size}px`,
+          color: BACK_PRINT_COLOR,
+        }}
+      >
+        {layout.printed.text}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import React from 'react';
+import { CAPTION_MAX_LENGTH } from '../constants';
+import { PhotoData } from '../types';
+import { CardGeometry } from '../utils/filmFormat';
+import { CAPTION_TILT, captionOf, layoutCaption } from '../utils/caption';
+
+interface CardCaptionProps {
+  photo: PhotoData;
+  geometry: CardGeometry;
+  isEditing?: boolean;
+  onChange?: (text: string) => void;
+  onDone?: () => void;
+}
+
+/**
+ * The writing on a print's chin, laid out exactly as renderCardCanvas draws
+ * it. While editing, the note line becomes a text field in the same hand.
+ * Positioned inside PolaroidCard's chin slot.
+ */
+export const CardCaption: React.FC<CardCaptionProps> = ({ photo, geometry, isEditing = false, onChange, onDone }) => {
+  const caption = captionOf(photo);
+  // An empty note still needs its line while it's being written.
+  const layoutPhoto = isEditing && !caption.text.trim() ? { ...photo, caption: { ...caption, text: '…' } } : photo;
+  const lines = layoutCaption(layoutPhoto, geometry);
+  const chinTop = geometry.height - geometry.chin;
+
+  return (
+    <>
+      {lines.map((line, i) => {
+        const style: React.CSSProperties = {
+          top: line.centerY - chinTop - line.size / 2,
+          height: line.size,
+          fontFamily: line.family,
+          fontSize: line.size,
+          lineHeight: `${line.size}px`,
+          color: caption.color,
+          transform: `rotate(${CAPTION_TILT}deg)`,
+        };
+        return isEditing && i === 0 ? (
+          <input
+            key={i}
+            autoFocus
+            value={caption.text}
+            maxLength={CAPTION_MAX_LENGTH}
+            placeholder="Write something…"
+            aria-label="Caption"
+            className="absolute left-0 w-full bg-transparent text-center outline-none pointer-events-auto placeholder:text-gray-300"
+            style={style}
+            onPointerDown={(e) => e.stopPropagation()}
+            onChange={(e) => onChange?.(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === 'Escape') e.currentTarget.blur();
+            }}
+            onBlur={onDone}
+          />
+        ) : (
+          <p key={i} className="absolute left-0 w-full whitespace-nowrap" style={style}>
+            {line.text}
+          </p>
+        );
+      })}
+    </>
+  );
+};
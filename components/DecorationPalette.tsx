@@ -0,0 +1,110 @@
+import React, { useState } from "react";
+import { Bandage, Pencil, Pin, Smile, Type } from "lucide-react";
+import { CAPTION_COLORS, CAPTION_FONTS, PIN_COLORS, STICKER_EMOJI, TAPE_COLORS } from "../constants";
+import { DecorationDraft } from "../utils/decorations";
+
+interface DecorationPaletteProps {
+  isDrawing: boolean;
+  onDrawingChange: (drawing: boolean) => void;
+  penColor: string;
+  onPenColorChange: (color: string) => void;
+  onAdd: (draft: DecorationDraft) => void;
+}
+
+const buttonClass =
+  "p-1.5 rounded-full text-gray-600 hover:bg-blue-50 hover:text-blue-600 transition-colors";
+
+const pick = <T,>(options: T[]) => options[Math.floor(Math.random() * options.length)];
+
+/** Scrapbook supplies: tape, pins, stickers, doodle text and the pen. */
+export const DecorationPalette: React.FC<DecorationPaletteProps> = ({
+  isDrawing,
+  onDrawingChange,
+  penColor,
+  onPenColorChange,
+  onAdd,
+}) => {
+  const [isPickingSticker, setIsPickingSticker] = useState(false);
+
+  return (
+    <div className="flex flex-col items-start gap-2">
+      <div className="flex items-center gap-1 bg-white/90 backdrop-blur-sm rounded-full p-1.5 shadow-sm border border-gray-200/60">
+        <button
+          type="button"
+          onClick={() => onAdd({ kind: "tape", color: pick(TAPE_COLORS) })}
+          className={buttonClass}
+          title="Add Tape (tapes down the selected photo)"
+        >
+          <Bandage size={16} />
+        </button>
+        <button
+          type="button"
+          onClick={() => onAdd({ kind: "pin", color: pick(PIN_COLORS) })}
+          className={buttonClass}
+          title="Add Pin (pins up the selected photo)"
+        >
+          <Pin size={16} />
+        </button>
+        <button
+          type="button"
+          onClick={() => setIsPickingSticker(!isPickingSticker)}
+          className={`${buttonClass} ${isPickingSticker ? "bg-blue-50 text-blue-600" : ""}`}
+          title="Add Sticker"
+        >
+          <Smile size={16} />
+        </button>
+        <button
+          type="button"
+          onClick={() => onAdd({ kind: "text", text: "", fontId: CAPTION_FONTS[0].id, color: penColor })}
+          className={buttonClass}
+          title="Add Doodle Text"
+        >
+          <Type size={16} />
+        </button>
+        <button
+          type="button"
+          onClick={() => onDrawingChange(!isDrawing)}
+          className={`${buttonClass} ${isDrawing ? "bg-blue-50 text-blue-600" : ""}`}
+          title={isDrawing ? "Stop Drawing" : "Draw on the Wall"}
+        >
+          <Pencil size={16} />
+        </button>
+      </div>
+
+      {isPickingSticker && (
+        <div className="flex flex-wrap max-w-[200px] gap-0.5 bg-white/90 backdrop-blur-sm rounded-2xl p-1.5 shadow-sm border border-gray-200/60">
+          {STICKER_EMOJI.map((emoji) => (
+            <button
+              key={emoji}
+              type="button"
+              onClick={() => {
+                onAdd({ kind: "sticker", emoji });
+                setIsPickingSticker(false);
+              }}
+              className="w-8 h-8 rounded-full text-lg hover:bg-gray-100 transition-colors"
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {isDrawing && (
+        <div className="flex items-center gap-1.5 bg-white/90 backdrop-blur-sm rounded-full px-2.5 py-2 shadow-sm border border-gray-200/60">
+          {CAPTION_COLORS.map((color) => (
+            <button
+              key={color}
+              type="button"
+              title="Pen Color"
+              onClick={() => onPenColorChange(color)}
+              className={`w-4 h-4 rounded-full shadow-sm hover:scale-125 transition-all ${
+                penColor === color ? "ring-2 ring-offset-1 ring-gray-400" : ""
+              }`}
+              style={{ backgroundColor: color }}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
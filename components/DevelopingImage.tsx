@@ -0,0 +1,62 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { loadImage } from '../utils/developFilm';
+import { drawDevelopingFrame } from '../utils/development';
+
+interface DevelopingImageProps {
+  url: string;
+  progress: number;
+  frame?: number; // Which slice of a stacked multi-frame image to show
+  frames?: number;
+  className?: string;
+}
+
+// Canvas backing resolution; the chemistry is soft, it doesn't need full size.
+const MAX_CANVAS_WIDTH = 480;
+
+/** A print still in the chemistry, redrawn whenever its progress changes. */
+export const DevelopingImage: React.FC<DevelopingImageProps> = ({
+  url,
+  progress,
+  frame = 0,
+  frames = 1,
+  className = '',
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setImage(null);
+    loadImage(url)
+      .then((img) => !cancelled && setImage(img))
+      .catch((err) => console.error('develop preview failed', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const slice = image
+      ? {
+          x: 0,
+          y: (frame * image.naturalHeight) / frames,
+          width: image.naturalWidth,
+          height: image.naturalHeight / frames,
+        }
+      : null;
+    const width = Math.min(MAX_CANVAS_WIDTH, slice?.width ?? MAX_CANVAS_WIDTH);
+    const height = slice ? Math.round((width * slice.height) / slice.width) : width;
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+
+    drawDevelopingFrame(ctx, image, slice ?? { x: 0, y: 0, width, height }, progress);
+  }, [image, progress, frame, frames]);
+
+  return <canvas ref={canvasRef} className={`w-full h-full ${className}`} />;
+};
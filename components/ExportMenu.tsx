@@ -0,0 +1,116 @@
+import React, { useState } from "react";
+import { ImageDown, Loader2 } from "lucide-react";
+import { WALL_EXPORT_SCALES } from "../constants";
+import { WallExportFormat, WallExportScope } from "../utils/wallRenderer";
+
+interface ExportMenuProps {
+  hasSelection: boolean;
+  disabled: boolean; // Nothing on the wall to export
+  isExporting: boolean;
+  onExport: (scope: WallExportScope, format: WallExportFormat, scale: number) => void;
+}
+
+const SCOPE_LABELS: Record<WallExportScope, string> = {
+  wall: "Whole Wall",
+  view: "View",
+  selection: "Selection",
+};
+
+const FORMAT_LABELS: Record<WallExportFormat, string> = {
+  png: "PNG",
+  pdf: "PDF",
+};
+
+const buttonClass =
+  "p-1.5 rounded-full text-gray-600 hover:bg-blue-50 hover:text-blue-600 transition-colors disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-gray-600";
+
+const optionClass = (isActive: boolean) =>
+  `px-2 py-0.5 rounded-full transition-colors disabled:opacity-30 ${
+    isActive ? "bg-blue-50 text-blue-600 font-semibold" : "hover:bg-gray-100"
+  }`;
+
+/** Saves the wall, the view or the selection as one image or a PDF to print. */
+export const ExportMenu: React.FC<ExportMenuProps> = ({ hasSelection, disabled, isExporting, onExport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [scope, setScope] = useState<WallExportScope>("wall");
+  const [format, setFormat] = useState<WallExportFormat>("png");
+  const [scale, setScale] = useState(2);
+  // The selection may have gone since it was picked.
+  const shownScope = scope === "selection" && !hasSelection ? "wall" : scope;
+
+  return (
+    <div className="flex flex-col items-start gap-2">
+      <div className="flex items-center gap-1 bg-white/90 backdrop-blur-sm rounded-full p-1.5 shadow-sm border border-gray-200/60">
+        <button
+          type="button"
+          onClick={() => setIsOpen(!isOpen)}
+          disabled={disabled}
+          aria-expanded={isOpen && !disabled}
+          className={`${buttonClass} ${isOpen && !disabled ? "bg-blue-50 text-blue-600" : ""}`}
+          title="Export Wall"
+        >
+          {isExporting ? <Loader2 size={16} className="animate-spin" /> : <ImageDown size={16} />}
+        </button>
+      </div>
+      {isOpen && !disabled && (
+        <div className="flex flex-col gap-1.5 bg-white/90 backdrop-blur-sm rounded-2xl p-2 shadow-sm border border-gray-200/60 font-sans text-[11px] text-gray-600">
+          <div className="flex items-center gap-0.5" role="radiogroup" aria-label="What to export">
+            {(Object.keys(SCOPE_LABELS) as WallExportScope[]).map((s) => (
+              <button
+                key={s}
+                type="button"
+                role="radio"
+                aria-checked={shownScope === s}
+                onClick={() => setScope(s)}
+                disabled={s === "selection" && !hasSelection}
+                className={optionClass(shownScope === s)}
+              >
+                {SCOPE_LABELS[s]}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-0.5" role="radiogroup" aria-label="Resolution">
+            {WALL_EXPORT_SCALES.map((s) => (
+              <button
+                key={s}
+                type="button"
+                role="radio"
+                aria-checked={scale === s}
+                onClick={() => setScale(s)}
+                className={optionClass(scale === s)}
+                title={`${96 * s} dpi`}
+              >
+                {s}x
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-0.5">
+            <div className="flex items-center gap-0.5" role="radiogroup" aria-label="File type">
+              {(Object.keys(FORMAT_LABELS) as WallExportFormat[]).map((f) => (
+                <button
+                  key={f}
+                  type="button"
+                  role="radio"
+                  aria-checked={format === f}
+                  onClick={() => setFormat(f)}
+                  className={optionClass(format === f)}
+                  title={f === "pdf" ? "True size, across A4 pages" : "One image"}
+                >
+                  {FORMAT_LABELS[f]}
+                </button>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => onExport(shownScope, format, scale)}
+              disabled={isExporting}
+              className="ml-auto px-3 py-0.5 rounded-full bg-gray-800 text-white font-semibold hover:bg-gray-700 disabled:opacity-50"
+            >
+              {isExporting ? "Exporting…" : "Export"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
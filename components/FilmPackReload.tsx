@@ -0,0 +1,98 @@
+import React, { useState } from "react";
+import { X } from "lucide-react";
+import { FILM_FORMATS } from "../constants";
+import { FilmPack, FilmStock } from "../types";
+
+interface FilmPackReloadProps {
+  pack: FilmPack;
+  stocks: FilmStock[];
+  onLoad: (tintId: string, formatId: string) => void;
+  onClose: () => void;
+}
+
+export const FilmPackReload: React.FC<FilmPackReloadProps> = ({ pack, stocks, onLoad, onClose }) => {
+  const [tintId, setTintId] = useState(pack.tintId);
+  const [formatId, setFormatId] = useState(pack.formatId);
+
+  return (
+    <div
+      className="absolute bottom-full mb-14 left-0 w-[320px] bg-[#fdfbf7] rounded-2xl shadow-[0_10px_30px_rgba(0,0,0,0.3)] border border-gray-200 p-4 pointer-events-auto z-50 font-sans text-[11px] text-gray-600"
+      onPointerDown={(e) => e.stopPropagation()}
+      onMouseDown={(e) => e.stopPropagation()}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <div className="text-[10px] text-gray-400 font-bold uppercase tracking-widest">
+          Load Film
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1 rounded-full text-gray-500 hover:bg-gray-200"
+          title="Close"
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <div className="flex items-start gap-2">
+          <span className="w-16 shrink-0 pt-1">Stock</span>
+          <div className="flex flex-wrap gap-1">
+            {stocks.map((stock) => (
+              <button
+                key={stock.id}
+                type="button"
+                onClick={() => setTintId(stock.id)}
+                className={`flex items-center gap-1 px-2 py-1 rounded border ${
+                  tintId === stock.id
+                    ? "bg-gray-800 text-white border-gray-800"
+                    : "bg-white border-gray-300 hover:bg-gray-100"
+                }`}
+              >
+                <span
+                  className={`w-2.5 h-2.5 rounded-full ${stock.color}`}
+                  style={stock.swatch ? { backgroundColor: stock.swatch } : undefined}
+                />
+                {stock.name}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <span className="w-16 shrink-0">Format</span>
+          <div className="flex rounded border border-gray-300 overflow-hidden">
+            {FILM_FORMATS.map((f) => (
+              <button
+                key={f.id}
+                type="button"
+                onClick={() => setFormatId(f.id)}
+                className={`px-2 py-1 ${
+                  formatId === f.id ? "bg-gray-800 text-white" : "bg-white hover:bg-gray-100"
+                }`}
+              >
+                {f.name}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 mt-3">
+        <span className="text-gray-400">
+          {pack.remaining > 0
+            ? `${pack.remaining} unused ${pack.remaining === 1 ? "exposure" : "exposures"} will be lost.`
+            : `${pack.size} exposures per pack.`}
+        </span>
+        <button
+          type="button"
+          onClick={() => onLoad(tintId, formatId)}
+          className="ml-auto px-3 py-1.5 rounded-full bg-gray-800 text-white text-xs hover:bg-gray-700"
+        >
+          Load Pack
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { FilmStock, MediaFrame } from "../types";
+import { centerCrop, renderFilmStock } from "../utils/filmEngine";
+import { GLFilmRenderer, compileFilmShader, createGLFilmRenderer } from "../utils/filmShader";
+
+interface LiveViewfinderProps {
+  getFrame: () => MediaFrame | null;
+  stock: FilmStock;
+  flash: boolean;
+  mirror: boolean;
+  aspect: number; // Frame aspect of the selected film format
+  active: boolean;
+}
+
+// The viewfinder window is 60 CSS px; this covers 2-3x DPR without
+// spending per-frame work on pixels nobody sees.
+const PREVIEW_SIZE = 160;
+
+export const LiveViewfinder: React.FC<LiveViewfinderProps> = ({
+  getFrame,
+  stock,
+  flash,
+  mirror,
+  aspect,
+  active,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [glFailed, setGlFailed] = useState(false);
+
+  const fragmentShader = useMemo(() => compileFilmShader(stock, flash), [stock, flash]);
+  const mode = !glFailed && fragmentShader ? "webgl" : "2d";
+  const width = Math.round(aspect >= 1 ? PREVIEW_SIZE : PREVIEW_SIZE * aspect);
+  const height = Math.round(aspect >= 1 ? PREVIEW_SIZE / aspect : PREVIEW_SIZE);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !active) return;
+
+    let renderFrame: (frame: MediaFrame) => void;
+    let dispose = () => {};
+
+    if (mode === "webgl" && fragmentShader) {
+      let renderer: GLFilmRenderer | null = null;
+      try {
+        renderer = createGLFilmRenderer(canvas);
+      } catch (err) {
+        console.warn("WebGL viewfinder unavailable", err);
+      }
+      if (!renderer) {
+        setGlFailed(true);
+        return;
+      }
+      const gl = renderer;
+      dispose = gl.dispose;
+      renderFrame = (frame) => {
+        const crop = centerCrop(frame.width, frame.height, aspect);
+        gl.render(
+          frame.source,
+          frame,
+          crop,
+          fragmentShader,
+          mirror,
+          width / crop.width
+        );
+      };
+    } else {
+      const ctx = canvas.getContext("2d", { willReadFrequently: true });
+      if (!ctx) return;
+      renderFrame = (frame) => {
+        const crop = centerCrop(frame.width, frame.height, aspect);
+        ctx.clearRect(0, 0, width, height);
+        renderFilmStock(ctx, stock, {
+          source: frame.source,
+          crop,
+          flash,
+          mirror,
+          pixelScale: width / crop.width,
+        });
+      };
+    }
+
+    let raf = 0;
+    const tick = () => {
+      const frame = getFrame();
+      if (frame) {
+        try {
+          renderFrame(frame);
+        } catch (err) {
+          // A shader that compiles in theory can still be rejected by a driver.
+          console.warn("viewfinder render failed", err);
+          if (mode === "webgl") setGlFailed(true);
+          return;
+        }
+      }
+      raf = requestAnimationFrame(tick);
+    };
+    raf = requestAnimationFrame(tick);
+
+    return () => {
+      cancelAnimationFrame(raf);
+      dispose();
+    };
+  }, [mode, fragmentShader, stock, flash, mirror, aspect, width, height, active, getFrame]);
+
+  return (
+    <canvas
+      // A canvas is locked to its first context type, so switching modes needs a new element.
+      key={mode}
+      ref={canvasRef}
+      width={width}
+      height={height}
+      className="absolute inset-0 w-full h-full object-contain bg-[#111] pointer-events-none"
+    />
+  );
+};
@@ -0,0 +1,91 @@
+import React, { useState } from "react";
+import { PhotoData, WallViewport } from "../types";
+import { Point, Rect, itemBounds, unionBounds } from "../utils/selection";
+import { visibleWorldRect } from "../utils/viewport";
+import { stackingOrder } from "../utils/zOrder";
+
+const MAP_WIDTH = 160; // px
+const MAP_HEIGHT = 110; // px
+const MAP_PADDING = 0.1; // of the mapped area, on each side
+
+interface MinimapProps {
+  photos: PhotoData[];
+  viewport: WallViewport;
+  screenWidth: number;
+  screenHeight: number;
+  onNavigate: (world: Point) => void;
+}
+
+export const Minimap: React.FC<MinimapProps> = ({
+  photos,
+  viewport,
+  screenWidth,
+  screenHeight,
+  onNavigate,
+}) => {
+  // The mapped area follows the view, so it's held still while dragging on the map.
+  const [heldArea, setHeldArea] = useState<Rect | null>(null);
+
+  const view = visibleWorldRect(viewport, screenWidth, screenHeight);
+  const content = unionBounds([view, ...photos.map(itemBounds)]) as Rect;
+  const padX = (content.right - content.left) * MAP_PADDING;
+  const padY = (content.bottom - content.top) * MAP_PADDING;
+  const area = heldArea ?? {
+    left: content.left - padX,
+    top: content.top - padY,
+    right: content.right + padX,
+    bottom: content.bottom + padY,
+  };
+  const scale = Math.min(MAP_WIDTH / (area.right - area.left), MAP_HEIGHT / (area.bottom - area.top));
+  // Centre the mapped area in the map.
+  const offsetX = (MAP_WIDTH - (area.right - area.left) * scale) / 2;
+  const offsetY = (MAP_HEIGHT - (area.bottom - area.top) * scale) / 2;
+
+  const toMap = (rect: Rect) => ({
+    left: offsetX + (rect.left - area.left) * scale,
+    top: offsetY + (rect.top - area.top) * scale,
+    width: (rect.right - rect.left) * scale,
+    height: (rect.bottom - rect.top) * scale,
+  });
+
+  const byId = new Map(photos.map((p) => [p.id, p]));
+  const stacked = stackingOrder(photos).map((id) => byId.get(id) as PhotoData);
+
+  const navigate = (e: React.PointerEvent<HTMLDivElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    onNavigate({
+      x: area.left + (e.clientX - bounds.left - offsetX) / scale,
+      y: area.top + (e.clientY - bounds.top - offsetY) / scale,
+    });
+  };
+
+  return (
+    <div
+      className="relative overflow-hidden bg-white/90 backdrop-blur-sm rounded-xl shadow-sm border border-gray-200/60 cursor-pointer"
+      style={{ width: MAP_WIDTH, height: MAP_HEIGHT, touchAction: "none" }}
+      title="Minimap"
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setHeldArea(area);
+        navigate(e);
+      }}
+      onPointerMove={(e) => {
+        if (heldArea) navigate(e);
+      }}
+      onPointerUp={() => setHeldArea(null)}
+      onPointerCancel={() => setHeldArea(null)}
+    >
+      {stacked.map((photo) => (
+        <div
+          key={photo.id}
+          className="absolute border border-gray-400/60 rounded-[1px]"
+          style={{ ...toMap(itemBounds(photo)), backgroundColor: photo.borderColor || "#fff" }}
+        />
+      ))}
+      <div
+        className="absolute border-2 border-blue-500 bg-blue-400/10 rounded-sm pointer-events-none"
+        style={toMap(view)}
+      />
+    </div>
+  );
+};
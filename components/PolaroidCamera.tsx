@@ -1,249 +1,434 @@
-import React, { useRef, useEffect, useState, useCallback } from "react";
-import { Camera, Zap, ChevronDown, ChevronUp } from "lucide-react";
+import React, { useRef, useEffect, useState, useCallback, useMemo } from "react";
+import {
+  Camera,
+  Zap,
+  ChevronDown,
+  ChevronUp,
+  SlidersHorizontal,
+  Settings2,
+  Timer,
+  X,
+} from "lucide-react";
+import { v4 as uuidv4 } from "uuid";
+import {
+  BOOTH_FORMAT_ID,
+  BOOTH_FRAME_COUNTDOWN,
+  CAPTURE_RESOLUTIONS,
+  DEFAULT_BURST_COUNT,
+  DEFAULT_BURST_INTERVAL,
+  DEFAULT_EXPOSURE_BLEND,
+  DEFAULT_FORMAT_ID,
+  DEFAULT_RESOLUTION_ID,
+  FILM_FORMATS,
+  SELF_TIMER_OPTIONS,
+  STRIP_FRAME_INTERVAL,
+  TINT_OPTIONS,
+} from "../constants";
+import {
+  CameraFacing,
+  CaptureResult,
+  DriveMode,
+  ExposureBlend,
+  FilmFormat,
+  FilmPack,
+  FilmPreset,
+  FilmRecipe,
+  MediaSourceSelection,
+} from "../types";
+import { centerCrop } from "../utils/filmEngine";
+import {
+  blendExposures,
+  developFrames,
+  encodeRawFrame,
+  grabFrame,
+  stackFrames,
+} from "../utils/developFilm";
+import { cardGeometry, getFilmFormat } from "../utils/filmFormat";
+import { createSeed } from "../utils/prng";
+import { loadFilmPack, reloadFilmPack, saveFilmPack } from "../utils/filmPack";
+import {
+  DEFAULT_PRESET,
+  loadCustomPresets,
+  presetToFilmStock,
+  saveCustomPresets,
+} from "../utils/presets";
+import { PresetEditor } from "./PresetEditor";
+import { PolaroidCard } from "./PolaroidCard";
+import { LiveViewfinder } from "./LiveViewfinder";
+import { CameraSettings } from "./CameraSettings";
+import { FilmPackReload } from "./FilmPackReload";
+import { useMediaSource } from "../hooks/useMediaSource";
+import { isTextInput } from "../utils/keyboard";
+
+// `?source=test-pattern` boots without touching the webcam (kiosk demos, automated tests).
+const initialSource = (): MediaSourceSelection =>
+  new URLSearchParams(window.location.search).get("source") === "test-pattern"
+    ? { kind: "test-pattern" }
+    : { kind: "camera" };
+
+// Width of the slot prints eject from; wider formats are shown scaled down.
+const EJECT_SLOT_WIDTH = 240;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const selectionForFile = (file: File): MediaSourceSelection | null => {
+  if (file.type.startsWith("image/")) return { kind: "image", file };
+  if (file.type.startsWith("video/")) return { kind: "video-file", file };
+  return null;
+};
 
 interface PolaroidCameraProps {
-  onCapture: (imageData: string) => void;
+  onCapture: (capture: CaptureResult) => void;
   isPrinting: boolean;
   currentPrintUrl: string | null;
   currentPrintColor?: string;
+  currentPrintFormatId?: string;
+  queuedPrints?: number;
   onDragStartFromCamera: (e: React.PointerEvent) => void;
+  onPlacePrint: () => void; // Puts the waiting print on the wall, for the keyboard
+  onAnnounce: (message: string) => void;
 }
 
-// ---------------------------------------
-// ULTRA-ICE TINT PRESETS
-// ---------------------------------------
-const TINT_OPTIONS = [
-  {
-    id: "neutral",
-    name: "Standard",
-    color: "bg-zinc-500",
-    vignette: "rgba(15,15,15,0.75)",
-    overlay: null,
-  },
-  {
-    id: "blue",
-    name: "Midnight Ice",
-    color: "bg-blue-600",
-    vignette: "rgba(10, 20, 55, 0.92)",
-    overlay: "rgba(210, 240, 255, 0.18)",
-  },
-  {
-    id: "red",
-    name: "Velvet",
-    color: "bg-red-700",
-    vignette: "rgba(70, 5, 20, 0.85)",
-    overlay: "rgba(255, 40, 0, 0.08)",
-  },
-  {
-    id: "emerald",
-    name: "Forest",
-    color: "bg-emerald-700",
-    vignette: "rgba(5, 50, 30, 0.85)",
-    overlay: "rgba(0, 255, 100, 0.06)",
-  },
-  {
-    id: "amber",
-    name: "Sepia",
-    color: "bg-amber-500",
-    vignette: "rgba(60, 40, 10, 0.85)",
-    overlay: "rgba(255, 180, 0, 0.1)",
-  },
-];
-
 export const PolaroidCamera: React.FC<PolaroidCameraProps> = ({
   onCapture,
   isPrinting,
   currentPrintUrl,
   currentPrintColor = "#ffffff",
+  currentPrintFormatId,
+  queuedPrints = 0,
   onDragStartFromCamera,
+  onPlacePrint,
+  onAnnounce,
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
 
-  const [stream, setStream] = useState<MediaStream | null>(null);
-  const [permissionError, setPermissionError] = useState<string | null>(null);
   const [flashActive, setFlashActive] = useState(false);
   const [isFolded, setIsFolded] = useState(false);
   const [selectedTintIndex, setSelectedTintIndex] = useState(0);
   const [isFlashEnabled, setIsFlashEnabled] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [customPresets, setCustomPresets] = useState<FilmPreset[]>(loadCustomPresets);
+  const [editingPreset, setEditingPreset] = useState<{ preset: FilmPreset; isNew: boolean } | null>(null);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [deviceId, setDeviceId] = useState<string | null>(null);
+  const [facingMode, setFacingMode] = useState<CameraFacing>("user");
+  const [resolutionId, setResolutionId] = useState(DEFAULT_RESOLUTION_ID);
+  const [mirrorOverride, setMirrorOverride] = useState<boolean | null>(null);
+  const [sourceSelection, setSourceSelection] = useState<MediaSourceSelection>(initialSource);
+  const [isDropTarget, setIsDropTarget] = useState(false);
+  const [formatId, setFormatId] = useState(DEFAULT_FORMAT_ID);
+  const [driveMode, setDriveMode] = useState<DriveMode>("single");
+  const [selfTimer, setSelfTimer] = useState(0);
+  const [burstCount, setBurstCount] = useState(DEFAULT_BURST_COUNT);
+  const [burstInterval, setBurstInterval] = useState(DEFAULT_BURST_INTERVAL);
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [isSequenceRunning, setIsSequenceRunning] = useState(false);
+  // The running timer/burst; pressing the shutter again flags it cancelled.
+  const sequenceRef = useRef<{ cancelled: boolean } | null>(null);
+  const [doubleExposure, setDoubleExposure] = useState(false);
+  const [exposureBlend, setExposureBlend] = useState<ExposureBlend>(DEFAULT_EXPOSURE_BLEND);
+  // First half of a double exposure, waiting in the camera for the second press.
+  const [heldExposure, setHeldExposure] = useState<{
+    frames: HTMLCanvasElement[];
+    previewUrl: string;
+  } | null>(null);
+
+  const [filmPack, setFilmPack] = useState<FilmPack>(loadFilmPack);
+  const [isReloadOpen, setIsReloadOpen] = useState(false);
+  const isPackEmpty = filmPack.enabled && filmPack.remaining === 0;
+
+  // A loaded pack decides the format; otherwise booth mode always shoots strips.
+  const format = getFilmFormat(
+    filmPack.enabled ? filmPack.formatId : driveMode === "booth" ? BOOTH_FORMAT_ID : formatId
+  );
+  // A burst is a run of separate prints, so there's nothing to expose twice.
+  const isDoubleExposure = doubleExposure && driveMode !== "burst";
+
+  // The held frames only fit the format they were shot on.
+  useEffect(() => setHeldExposure(null), [isDoubleExposure, format.id]);
+  const printFormat = getFilmFormat(currentPrintFormatId);
+  const ejectGeometry = cardGeometry(
+    printFormat,
+    Math.min(printFormat.cardWidth, EJECT_SLOT_WIDTH)
+  );
 
-  const currentTint = TINT_OPTIONS[selectedTintIndex];
-
-  useEffect(() => {
-    const startCamera = async () => {
-      try {
-        const mediaStream = await navigator.mediaDevices.getUserMedia({
-          video: {
-            facingMode: "user",
-            width: { ideal: 1280 },
-            height: { ideal: 720 },
-          },
-          audio: false,
-        });
-        setStream(mediaStream);
-        if (videoRef.current) videoRef.current.srcObject = mediaStream;
-      } catch (err) {
-        setPermissionError("Camera access denied.");
-      }
-    };
-
-    startCamera();
-    return () => stream?.getTracks().forEach((t) => t.stop());
-  }, []);
+  const resolution =
+    CAPTURE_RESOLUTIONS.find((r) => r.id === resolutionId) ?? CAPTURE_RESOLUTIONS[0];
+  const cameraRequest = useMemo(
+    () => ({ deviceId, facingMode, resolution }),
+    [deviceId, facingMode, resolution]
+  );
+  const handleSourceEnded = useCallback(() => setSourceSelection({ kind: "camera" }), []);
+  const media = useMediaSource(videoRef, sourceSelection, cameraRequest, handleSourceEnded);
+  // Front cameras read as a mirror; rear cameras and every other source
+  // print the world as it is.
+  const isMirrored =
+    mirrorOverride ?? (sourceSelection.kind === "camera" && media.camera.isFrontFacing);
+
+  const handleImportFile = (file: File) => {
+    const selection = selectionForFile(file);
+    if (selection) setSourceSelection(selection);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDropTarget(false);
+    const file = e.dataTransfer.files[0];
+    if (file) handleImportFile(file);
+  };
+
+  const filmStocks = useMemo(
+    () => [...TINT_OPTIONS, ...customPresets.map(presetToFilmStock)],
+    [customPresets]
+  );
+  const currentTint =
+    (filmPack.enabled
+      ? filmStocks.find((s) => s.id === filmPack.tintId)
+      : filmStocks[selectedTintIndex]) ?? filmStocks[0];
+
+  useEffect(() => saveCustomPresets(customPresets), [customPresets]);
+  useEffect(() => saveFilmPack(filmPack), [filmPack]);
+
+  const handleLoadPack = (tintId: string, packFormatId: string) => {
+    setFilmPack((prev) => reloadFilmPack(prev, tintId, packFormatId));
+    setIsReloadOpen(false);
+  };
+
+  const openPresetEditor = () => {
+    const custom = customPresets.find((p) => p.id === currentTint.id);
+    setEditingPreset(
+      custom
+        ? { preset: custom, isNew: false }
+        : { preset: { ...DEFAULT_PRESET, id: uuidv4() }, isNew: true }
+    );
+  };
+
+  const handleSavePreset = (preset: FilmPreset) => {
+    const existing = customPresets.findIndex((p) => p.id === preset.id);
+    const next =
+      existing === -1
+        ? [...customPresets, preset]
+        : customPresets.map((p) => (p.id === preset.id ? preset : p));
+    setCustomPresets(next);
+    setSelectedTintIndex(TINT_OPTIONS.length + next.findIndex((p) => p.id === preset.id));
+    setEditingPreset(null);
+  };
+
+  const handleDeletePreset = (id: string) => {
+    setCustomPresets((prev) => prev.filter((p) => p.id !== id));
+    setSelectedTintIndex(0);
+    setEditingPreset(null);
+  };
+
+  const handleFlipCamera = () => {
+    setDeviceId(null);
+    setFacingMode((prev) => (prev === "user" ? "environment" : "user"));
+  };
 
   useEffect(() => {
     if (isPrinting || currentPrintUrl) setIsFolded(false);
   }, [isPrinting, currentPrintUrl]);
 
-  const handleShutterPress = useCallback(
-    (e?: React.MouseEvent) => {
-      if (e) {
-        e.preventDefault();
-        e.stopPropagation();
-      }
-
-      if (isPrinting || isFolded) return;
-
+  const exposeFrame = useCallback(
+    (aspect: number) => {
+      const frame = media.getFrame();
+      if (!frame) throw new Error("source went away mid-capture");
       if (isFlashEnabled) {
         setFlashActive(true);
         setTimeout(() => setFlashActive(false), 150);
       }
+      return grabFrame(frame.source, centerCrop(frame.width, frame.height, aspect));
+    },
+    [media.getFrame, isFlashEnabled]
+  );
 
-      if (!videoRef.current || !canvasRef.current) return;
-
-      const video = videoRef.current;
-      const canvas = canvasRef.current;
-      const ctx = canvas.getContext("2d", { willReadFrequently: true });
-      if (!ctx) return;
-
-      const size = Math.min(video.videoWidth, video.videoHeight);
-      const xOffset = (video.videoWidth - size) / 2;
-      const yOffset = (video.videoHeight - size) / 2;
-
-      canvas.width = size;
-      canvas.height = size;
-
-      ctx.save();
-      ctx.translate(size, 0);
-      ctx.scale(-1, 1);
-
-      let filterString = "";
+  // Develop from grabbed frames, not the live video, so a later re-develop
+  // of the raw copy reproduces this print exactly.
+  const developPrint = useCallback(
+    async (exposures: HTMLCanvasElement[], printFormat: FilmFormat): Promise<CaptureResult> => {
+      const raw = stackFrames(exposures);
+      const recipe: FilmRecipe = {
+        tintId: currentTint.id,
+        flash: isFlashEnabled,
+        seed: createSeed(),
+        mirror: isMirrored,
+      };
+      const [url, rawUrl] = await Promise.all([
+        developFrames(raw, printFormat.frames, currentTint, recipe),
+        encodeRawFrame(raw),
+      ]);
+      return { url, rawUrl, recipe, formatId: printFormat.id };
+    },
+    [currentTint, isFlashEnabled, isMirrored]
+  );
 
-      if (currentTint.id === "blue") {
-        if (isFlashEnabled) {
-          filterString =
-            "hue-rotate(-36deg) saturate(0.32) brightness(1.48) contrast(1.58)";
-        } else {
-          filterString =
-            "hue-rotate(-20deg) saturate(0.50) brightness(1.22) contrast(1.12)";
-        }
-      } else {
-        filterString = isFlashEnabled
-          ? "contrast(1.4) brightness(1.3) saturate(1.1) sepia(0.05)"
-          : "contrast(0.9) brightness(1.1) saturate(0.85) sepia(0.15) hue-rotate(-5deg)";
+  const handleShutterPress = useCallback(
+    async (e?: React.MouseEvent) => {
+      if (e) {
+        e.preventDefault();
+        e.stopPropagation();
       }
 
-      ctx.filter = filterString;
-      ctx.drawImage(video, xOffset, yOffset, size, size, 0, 0, size, size);
-      ctx.restore();
-
-      if (isFlashEnabled && currentTint.id === "blue") {
-        ctx.save();
-        ctx.globalCompositeOperation = "multiply";
-        ctx.fillStyle = "rgba(0, 0, 25, 0.25)";
-        ctx.fillRect(0, 0, size, size);
-        ctx.restore();
+      if (sequenceRef.current) {
+        sequenceRef.current.cancelled = true;
+        return;
       }
-
-      if (currentTint.id === "blue") {
-        ctx.save();
-        ctx.globalCompositeOperation = "screen";
-        ctx.fillStyle = "rgba(220, 245, 255, 0.25)";
-        ctx.fillRect(0, 0, size, size);
-        ctx.globalCompositeOperation = "screen";
-        ctx.fillStyle = "rgba(180, 240, 255, 0.12)";
-        ctx.fillRect(0, 0, size, size);
-        ctx.restore();
-      } else if (currentTint.overlay) {
-        ctx.save();
-        ctx.globalCompositeOperation = "overlay";
-        ctx.fillStyle = currentTint.overlay;
-        ctx.fillRect(0, 0, size, size);
-        ctx.restore();
+      if (isPrinting || isFolded || isProcessing) return;
+      if (isPackEmpty) {
+        setEditingPreset(null);
+        setIsSettingsOpen(false);
+        setIsReloadOpen(true);
+        return;
       }
+      if (!media.getFrame()) return;
+
+      const sequence = { cancelled: false };
+      sequenceRef.current = sequence;
+      setIsSequenceRunning(true);
+      setIsProcessing(true);
+
+      // Both resolve false if the sequence was cancelled while waiting.
+      const hold = async (ms: number) => {
+        await wait(ms);
+        return !sequence.cancelled;
+      };
+      const countDown = async (seconds: number) => {
+        for (let s = seconds; s > 0 && !sequence.cancelled; s--) {
+          setCountdown(s);
+          await wait(1000);
+        }
+        setCountdown(null);
+        return !sequence.cancelled;
+      };
 
-      if (!isFlashEnabled) {
-        ctx.save();
-        ctx.globalCompositeOperation = "screen";
-        ctx.filter = "blur(14px) opacity(0.35)";
-        ctx.translate(size, 0);
-        ctx.scale(-1, 1);
-        ctx.drawImage(video, xOffset, yOffset, size, size, 0, 0, size, size);
-        ctx.restore();
-      }
+      try {
+        if (selfTimer > 0 && !(await countDown(selfTimer))) return;
 
-      ctx.save();
-      ctx.globalCompositeOperation = "multiply";
-      let gradient;
-      if (isFlashEnabled) {
-        gradient = ctx.createRadialGradient(
-          size / 2,
-          size / 2,
-          size * 0.22,
-          size / 2,
-          size / 2,
-          size * 0.88
-        );
-      } else {
-        gradient = ctx.createRadialGradient(
-          size / 2,
-          size / 2,
-          size * 0.45,
-          size / 2,
-          size / 2,
-          size * 1.05
+        const prints: HTMLCanvasElement[][] = [];
+        const printCount = Math.min(
+          driveMode === "burst" ? burstCount : 1,
+          filmPack.enabled ? filmPack.remaining : Infinity
         );
-      }
-      gradient.addColorStop(0, "rgba(0,0,0,0)");
-      gradient.addColorStop(1, currentTint.vignette);
-      ctx.fillStyle = gradient;
-      ctx.fillRect(0, 0, size, size);
-      ctx.restore();
-
-      if (currentTint.id === "blue") {
-        ctx.save();
-        ctx.globalCompositeOperation = "multiply";
-        ctx.fillStyle = "rgba(45, 70, 140, 0.18)";
-        ctx.fillRect(0, 0, size, size);
-        ctx.restore();
-      }
+        for (let p = 0; p < printCount; p++) {
+          // A cancelled burst still prints what it already shot.
+          if (p > 0 && !(await hold(burstInterval))) break;
+          const exposures: HTMLCanvasElement[] = [];
+          for (let i = 0; i < format.frames; i++) {
+            if (i > 0) {
+              const ready =
+                driveMode === "booth"
+                  ? await countDown(BOOTH_FRAME_COUNTDOWN)
+                  : await hold(STRIP_FRAME_INTERVAL);
+              if (!ready) return;
+            }
+            exposures.push(exposeFrame(format.aspect));
+          }
+          prints.push(exposures);
+        }
 
-      try {
-        const img = ctx.getImageData(0, 0, size, size);
-        const data = img.data;
-        const grain = currentTint.id === "blue" ? 14 : 22;
-        for (let i = 0; i < data.length; i += 4) {
-          const n = (Math.random() - 0.5) * grain;
-          data[i] += n;
-          data[i + 1] += n;
-          data[i + 2] += n;
+        if (isDoubleExposure) {
+          if (!heldExposure) {
+            setHeldExposure({
+              frames: prints[0],
+              previewUrl: prints[0][0].toDataURL("image/jpeg", 0.6),
+            });
+            return;
+          }
+          prints[0] = prints[0].map((frame, i) =>
+            blendExposures(heldExposure.frames[i], frame, exposureBlend)
+          );
+          setHeldExposure(null);
+        }
+
+        // Everything is on film; developing can't be cancelled.
+        sequenceRef.current = null;
+        setIsSequenceRunning(false);
+
+        const startedAt = performance.now();
+        for (const [i, exposures] of prints.entries()) {
+          const capture = await developPrint(exposures, format);
+          setFilmPack((prev) =>
+            prev.enabled ? { ...prev, remaining: Math.max(0, prev.remaining - 1) } : prev
+          );
+          // Give the flash a beat before the first print starts moving.
+          const remaining = i === 0 ? 100 - (performance.now() - startedAt) : 0;
+          setTimeout(() => onCapture(capture), Math.max(0, remaining));
         }
-        ctx.putImageData(img, 0, 0);
       } catch (err) {
-        console.log("grain error", err);
+        console.error("capture failed", err);
+      } finally {
+        sequenceRef.current = null;
+        setIsSequenceRunning(false);
+        setCountdown(null);
+        setIsProcessing(false);
       }
-
-      const dataUrl = canvas.toDataURL("image/jpeg", 0.95);
-      setTimeout(() => onCapture(dataUrl), 100);
     },
-    [isPrinting, isFolded, onCapture, currentTint, isFlashEnabled]
+    [
+      isPrinting,
+      isFolded,
+      isProcessing,
+      onCapture,
+      media.getFrame,
+      exposeFrame,
+      developPrint,
+      format,
+      driveMode,
+      selfTimer,
+      burstCount,
+      burstInterval,
+      isDoubleExposure,
+      heldExposure,
+      exposureBlend,
+      isPackEmpty,
+      filmPack,
+    ]
   );
 
+  // Space or Enter anywhere that isn't a control presses the shutter;
+  // number keys pick a film.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || isTextInput(e.target)) return;
+      if (
+        e.target instanceof Element &&
+        e.target.closest("button, a, [role='button'], [data-item-id]")
+      ) {
+        return;
+      }
+      if (e.key === " " || e.key === "Enter") {
+        e.preventDefault();
+        if (!e.repeat) handleShutterPress();
+      } else if (/^[1-9]$/.test(e.key) && !filmPack.enabled && !isFolded) {
+        const stock = filmStocks[Number(e.key) - 1];
+        if (!stock) return;
+        setSelectedTintIndex(Number(e.key) - 1);
+        onAnnounce(`${stock.name} film`);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [handleShutterPress, filmStocks, filmPack.enabled, isFolded, onAnnounce]);
+
+  // Folding the camera away abandons a pending timer or burst.
+  useEffect(() => {
+    if (isFolded && sequenceRef.current) sequenceRef.current.cancelled = true;
+  }, [isFolded]);
+
   return (
     <div
+      role="group"
+      aria-label="Camera"
       className={`relative w-[320px] h-[340px] select-none transition-transform duration-700 pointer-events-none ${
         isFolded ? "translate-y-[270px]" : "translate-y-0"
       }`}
+      // Drops land on the pointer-events-auto children and bubble up here.
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes("Files")) return;
+        e.preventDefault();
+        setIsDropTarget(true);
+      }}
+      onDragLeave={() => setIsDropTarget(false)}
+      onDrop={handleDrop}
     >
       {/* Toggle */}
       <button
@@ -252,6 +437,8 @@ export const PolaroidCamera: React.FC<PolaroidCameraProps> = ({
           e.stopPropagation();
           setIsFolded(!isFolded);
         }}
+        aria-label={isFolded ? "Open the camera" : "Fold the camera away"}
+        aria-expanded={!isFolded}
         className="absolute -top-10 right-6 w-16 h-10 bg-gray-800 rounded-t-xl flex items-center justify-center shadow-md border-t border-x border-gray-700 cursor-pointer hover:bg-gray-700 z-50 group pointer-events-auto"
       >
         <div className="flex flex-col items-center gap-0.5">
@@ -266,6 +453,59 @@ export const PolaroidCamera: React.FC<PolaroidCameraProps> = ({
         </div>
       </button>
 
+      {editingPreset && !isFolded && (
+        <PresetEditor
+          key={editingPreset.preset.id}
+          initial={editingPreset.preset}
+          isNew={editingPreset.isNew}
+          getPreviewFrame={media.getFrame}
+          previewMirror={isMirrored}
+          onSave={handleSavePreset}
+          onDelete={handleDeletePreset}
+          onClose={() => setEditingPreset(null)}
+        />
+      )}
+
+      {isSettingsOpen && !isFolded && (
+        <CameraSettings
+          sourceKind={sourceSelection.kind}
+          onSelectSource={setSourceSelection}
+          onImportFile={handleImportFile}
+          devices={media.camera.devices}
+          activeDeviceId={media.camera.activeDeviceId}
+          facingMode={facingMode}
+          resolutionId={resolution.id}
+          mirrorOverride={mirrorOverride}
+          isMirrored={isMirrored}
+          onSelectDevice={setDeviceId}
+          onFlip={handleFlipCamera}
+          onSelectResolution={setResolutionId}
+          onMirrorOverrideChange={setMirrorOverride}
+          driveMode={driveMode}
+          burstCount={burstCount}
+          burstInterval={burstInterval}
+          onDriveModeChange={setDriveMode}
+          onBurstCountChange={setBurstCount}
+          onBurstIntervalChange={setBurstInterval}
+          doubleExposure={doubleExposure}
+          exposureBlend={exposureBlend}
+          onDoubleExposureChange={setDoubleExposure}
+          onExposureBlendChange={setExposureBlend}
+          filmPack={filmPack}
+          onFilmPackChange={setFilmPack}
+          onClose={() => setIsSettingsOpen(false)}
+        />
+      )}
+
+      {isReloadOpen && !isFolded && (
+        <FilmPackReload
+          pack={filmPack}
+          stocks={filmStocks}
+          onLoad={handleLoadPack}
+          onClose={() => setIsReloadOpen(false)}
+        />
+      )}
+
       {flashActive && (
         <div className="fixed inset-0 bg-white/80 z-[100] animate-flash pointer-events-none" />
       )}
@@ -273,26 +513,24 @@ export const PolaroidCamera: React.FC<PolaroidCameraProps> = ({
       {/* Photo eject - Uses onPointerDown for mobile support */}
       <div className="absolute top-0 left-1/2 -translate-x-1/2 w-[240px] h-full pointer-events-none z-0">
         {currentPrintUrl && (
-          <div
-            className={`absolute top-[20px] w-full p-3 pb-10 shadow-xl transform cursor-grab active:cursor-grabbing pointer-events-auto ${
+          <PolaroidCard
+            url={currentPrintUrl}
+            format={printFormat}
+            width={ejectGeometry.width}
+            borderColor={currentPrintColor}
+            imageAlt="Developing"
+            developProgress={0}
+            className={`!absolute top-[20px] shadow-xl transform cursor-grab active:cursor-grabbing pointer-events-auto ${
               isPrinting ? "animate-eject" : "-translate-y-[60%]"
             }`}
-            style={{ height: "290px", backgroundColor: currentPrintColor, touchAction: "none" }}
+            style={{ left: (EJECT_SLOT_WIDTH - ejectGeometry.width) / 2, touchAction: "none" }}
             onPointerDown={onDragStartFromCamera}
-          >
-            <div className="w-full h-[216px] bg-black overflow-hidden relative">
-              <img
-                src={currentPrintUrl}
-                alt="Developing"
-                className="w-full h-full object-cover animate-develop"
-              />
-            </div>
-            <div className="mt-4 text-center opacity-50">
-              <p className="font-hand text-gray-400 text-sm rotate-[-2deg]">
-                PulseSnap
-              </p>
-            </div>
-          </div>
+            actionLabel="Put the print on the wall"
+            onAction={onPlacePrint}
+            caption={
+              <p className="font-hand text-gray-400 text-sm rotate-[-2deg] opacity-50">PulseSnap</p>
+            }
+          />
         )}
       </div>
 
@@ -302,10 +540,131 @@ export const PolaroidCamera: React.FC<PolaroidCameraProps> = ({
            <div className="absolute inset-0 opacity-10 pointer-events-none rounded-b-[40px] rounded-t-[10px] bg-[url('https://www.transparenttextures.com/patterns/concrete-wall.png')] mix-blend-multiply"></div>
 
           <div className="relative w-[180px] h-[180px] bg-[#1a1a1a] rounded-full shadow-2xl border-[6px] border-[#2a2a2a] flex items-center justify-center mt-4 z-10">
-            <div className="w-[140px] h-[140px] bg-black rounded-full border-[8px] border-[#333] relative overflow-hidden shadow-inner" />
+            <div
+              className="w-[140px] h-[140px] bg-black rounded-full border-[8px] border-[#333] relative overflow-hidden shadow-inner flex items-center justify-center"
+              aria-live="assertive"
+            >
+              {countdown !== null && (
+                <span
+                  key={countdown}
+                  className="font-hand text-6xl text-red-500 drop-shadow-[0_0_12px_rgba(239,68,68,0.8)] animate-pulse"
+                >
+                  {countdown}
+                </span>
+              )}
+            </div>
             <div className="absolute -bottom-2 w-6 h-6 bg-gray-800 rounded-full border-2 border-gray-600" />
             <div className="absolute top-4 right-6 w-6 h-3 bg-white opacity-10 rotate-[-45deg] rounded-full blur-sm pointer-events-none"></div>
           </div>
+          {filmPack.enabled && (
+            <button
+              type="button"
+              title={isPackEmpty ? "Pack empty: reload" : "Exposures left: reload"}
+              onClick={(e) => {
+                e.stopPropagation();
+                setEditingPreset(null);
+                setIsSettingsOpen(false);
+                setIsReloadOpen(!isReloadOpen);
+              }}
+              disabled={isProcessing}
+              className="absolute top-5 right-5 flex flex-col items-center gap-0.5 z-10"
+            >
+              <span
+                className={`w-8 h-6 rounded-[3px] bg-[#1a1a1a] border-2 border-[#444] shadow-inner flex items-center justify-center font-mono text-sm font-bold ${
+                  isPackEmpty ? "text-red-500 animate-pulse" : "text-orange-400"
+                }`}
+              >
+                {isPackEmpty ? "E" : filmPack.remaining}
+              </span>
+              <span className="text-[7px] font-sans font-bold uppercase tracking-widest text-gray-400">
+                {isPackEmpty ? "Reload" : "Left"}
+              </span>
+            </button>
+          )}
+          <div className="absolute bottom-3 left-8 flex items-center gap-1 z-10">
+            <button
+              type="button"
+              title="Camera Settings"
+              onClick={(e) => {
+                e.stopPropagation();
+                setEditingPreset(null);
+                setIsReloadOpen(false);
+                setIsSettingsOpen(!isSettingsOpen);
+              }}
+              className="p-1.5 rounded-full text-gray-400 hover:text-gray-700 hover:bg-gray-200/60 transition-colors"
+            >
+              <Settings2 size={16} />
+            </button>
+            <button
+              type="button"
+              title={
+                filmPack.enabled
+                  ? "Format of the loaded pack"
+                  : driveMode === "booth"
+                    ? "Photo-booth mode shoots strips"
+                    : "Film Format"
+              }
+              onClick={(e) => {
+                e.stopPropagation();
+                const next =
+                  (FILM_FORMATS.findIndex((f) => f.id === format.id) + 1) % FILM_FORMATS.length;
+                setFormatId(FILM_FORMATS[next].id);
+              }}
+              disabled={isProcessing || filmPack.enabled || driveMode === "booth"}
+              className="px-2 py-0.5 rounded-full border border-gray-300 text-[9px] font-sans font-bold uppercase tracking-widest text-gray-500 hover:text-gray-800 hover:bg-gray-200/60 disabled:hover:bg-transparent transition-colors"
+            >
+              {format.name}
+            </button>
+            <button
+              type="button"
+              title="Self-Timer"
+              onClick={(e) => {
+                e.stopPropagation();
+                const next = (SELF_TIMER_OPTIONS.indexOf(selfTimer) + 1) % SELF_TIMER_OPTIONS.length;
+                setSelfTimer(SELF_TIMER_OPTIONS[next]);
+              }}
+              disabled={isProcessing}
+              className={`flex items-center gap-0.5 px-1.5 py-0.5 rounded-full text-[9px] font-sans font-bold transition-colors ${
+                selfTimer > 0
+                  ? "text-red-600 bg-red-50"
+                  : "text-gray-400 hover:text-gray-700 hover:bg-gray-200/60"
+              }`}
+            >
+              <Timer size={12} />
+              {selfTimer > 0 && `${selfTimer}s`}
+            </button>
+            {driveMode !== "single" && (
+              <span className="text-[9px] font-sans font-bold uppercase tracking-widest text-gray-400">
+                {driveMode === "burst" ? `Burst ×${burstCount}` : "Booth"}
+              </span>
+            )}
+            {isDoubleExposure && (
+              <button
+                type="button"
+                title={heldExposure ? "Discard first exposure" : "Double exposure"}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setHeldExposure(null);
+                }}
+                disabled={!heldExposure || isProcessing}
+                className={`flex items-center gap-0.5 px-1.5 py-0.5 rounded-full text-[9px] font-sans font-bold transition-colors ${
+                  heldExposure
+                    ? "text-white bg-amber-500 hover:bg-amber-600"
+                    : "text-amber-600 bg-amber-50"
+                }`}
+              >
+                2×{heldExposure && <X size={10} />}
+              </button>
+            )}
+          </div>
+          {queuedPrints > 0 && (
+            <div
+              className="absolute bottom-9 right-8 px-2 py-0.5 rounded-full bg-gray-800 text-white text-[9px] font-sans font-bold z-10"
+              title="Prints waiting in the slot"
+            >
+              +{queuedPrints}
+            </div>
+          )}
           <div className="absolute bottom-4 right-8 font-sans font-bold text-gray-400 tracking-widest text-xs uppercase z-10 drop-shadow-sm">
             PulseSnap
           </div>
@@ -328,27 +687,58 @@ export const PolaroidCamera: React.FC<PolaroidCameraProps> = ({
             <div className="text-[8px] text-gray-400 font-bold uppercase tracking-widest ml-1 mb-1">
               Filter
             </div>
-            <div className="flex gap-1 bg-gray-200/80 p-1.5 rounded-full border border-gray-300/50 backdrop-blur-sm shadow-sm">
-              {TINT_OPTIONS.map((t, idx) => (
+            <div
+              role="radiogroup"
+              aria-label="Film"
+              className="flex gap-1 bg-gray-200/80 p-1.5 rounded-full border border-gray-300/50 backdrop-blur-sm shadow-sm"
+            >
+              {filmStocks.map((t, idx) => (
                 <button
                   key={t.id}
-                  title={t.name}
+                  type="button"
+                  role="radio"
+                  aria-checked={currentTint.id === t.id}
+                  aria-label={t.name}
+                  aria-keyshortcuts={idx < 9 ? String(idx + 1) : undefined}
+                  title={filmPack.enabled ? `${t.name} (reload to change film)` : t.name}
                   onClick={(e) => {
                     e.stopPropagation();
                     setSelectedTintIndex(idx);
                   }}
-                  className={`w-3.5 h-3.5 rounded-full ${t.color} shadow-sm hover:scale-125 active:scale-95 transition-all ${
-                    selectedTintIndex === idx
+                  disabled={filmPack.enabled}
+                  style={t.swatch ? { backgroundColor: t.swatch } : undefined}
+                  className={`w-3.5 h-3.5 rounded-full ${t.color} shadow-sm hover:scale-125 active:scale-95 disabled:hover:scale-100 transition-all ${
+                    currentTint.id === t.id
                       ? "ring-2 ring-offset-1 ring-gray-400 scale-125"
                       : "opacity-60 hover:opacity-100"
                   }`}
                 />
               ))}
+              <button
+                type="button"
+                title={customPresets.some((p) => p.id === currentTint.id) ? "Edit Film" : "New Film"}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  if (editingPreset) setEditingPreset(null);
+                  else {
+                    setIsSettingsOpen(false);
+                    setIsReloadOpen(false);
+                    openPresetEditor();
+                  }
+                }}
+                className="w-3.5 h-3.5 flex items-center justify-center text-gray-500 hover:text-gray-800 hover:scale-125 transition-all"
+              >
+                <SlidersHorizontal size={10} />
+              </button>
             </div>
           </div>
 
           {/* Flash Unit */}
-          <div
+          <button
+            type="button"
+            aria-label="Flash"
+            aria-pressed={isFlashEnabled}
+            disabled={isFolded}
             onClick={(e) => {
               e.stopPropagation();
               setIsFlashEnabled(!isFlashEnabled);
@@ -370,7 +760,7 @@ export const PolaroidCamera: React.FC<PolaroidCameraProps> = ({
                   : "text-white/20"
               }`}
             />
-          </div>
+          </button>
 
           {/* Viewfinder */}
           <div
@@ -378,16 +768,36 @@ export const PolaroidCamera: React.FC<PolaroidCameraProps> = ({
               isFolded ? "opacity-0" : "opacity-100"
             }`}
           >
-            {!stream && !permissionError && (
+            {!media.isReady && !media.error && (
               <div className="absolute inset-0 flex items-center justify-center">
                 <Camera className="text-gray-600 animate-pulse" />
               </div>
             )}
-            {permissionError && (
-              <div className="absolute inset-0 bg-red-900 flex items-center justify-center p-1">
+            {media.error && (
+              <button
+                type="button"
+                title="Choose another source"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setEditingPreset(null);
+                  setIsReloadOpen(false);
+                  setIsSettingsOpen(true);
+                }}
+                className="absolute inset-0 z-10 bg-red-900 flex flex-col items-center justify-center p-1 cursor-pointer"
+              >
                 <span className="text-[8px] text-white text-center leading-tight">
-                  No Access
+                  {media.error === "denied"
+                    ? "No Access"
+                    : media.error === "unsupported-file"
+                      ? "Bad File"
+                      : "No Camera"}
                 </span>
+                <span className="text-[6px] text-white/70 uppercase mt-0.5">Sources</span>
+              </button>
+            )}
+            {isDropTarget && (
+              <div className="absolute inset-0 z-10 bg-blue-500/60 flex items-center justify-center">
+                <span className="text-[8px] text-white uppercase font-bold">Drop</span>
               </div>
             )}
             <video
@@ -395,8 +805,31 @@ export const PolaroidCamera: React.FC<PolaroidCameraProps> = ({
               autoPlay
               playsInline
               muted
-              className="w-full h-full object-cover transform scale-x-[-1]"
+              className={`w-full h-full object-cover transform ${isMirrored ? "scale-x-[-1]" : ""} ${
+                media.usesVideoElement ? "" : "invisible"
+              }`}
             />
+            {media.isReady && !media.error && (
+              <LiveViewfinder
+                getFrame={media.getFrame}
+                stock={currentTint}
+                flash={isFlashEnabled}
+                mirror={isMirrored}
+                aspect={format.aspect}
+                active={!isFolded}
+              />
+            )}
+            {heldExposure && (
+              // Ghost of the held frame so the second shot can be lined up.
+              <img
+                src={heldExposure.previewUrl}
+                alt="First exposure"
+                className={`absolute inset-0 w-full h-full object-contain pointer-events-none ${
+                  isMirrored ? "scale-x-[-1]" : ""
+                }`}
+                style={{ mixBlendMode: exposureBlend.mode, opacity: exposureBlend.opacity }}
+              />
+            )}
           </div>
         </div>
 
@@ -404,16 +837,26 @@ export const PolaroidCamera: React.FC<PolaroidCameraProps> = ({
         <button
           type="button"
           onClick={handleShutterPress}
-          disabled={isPrinting || isFolded}
+          // While a timer or burst runs the shutter stays live so it can cancel.
+          disabled={!isSequenceRunning && (isPrinting || isFolded || isProcessing)}
+          title={isSequenceRunning ? "Cancel" : isPackEmpty ? "Pack empty" : undefined}
+          aria-label={isSequenceRunning ? "Cancel" : "Take a photo"}
+          aria-keyshortcuts="Space Enter"
           className={`absolute -right-4 top-[140px] w-14 h-14 rounded-full bg-red-600 shadow-[inset_0_-4px_4px_rgba(0,0,0,0.3),0_4px_8px_rgba(0,0,0,0.4)] border-4 border-[#cc0000] flex items-center justify-center hover:bg-red-500 active:scale-95 ${
-            isPrinting || isFolded ? "opacity-50 cursor-not-allowed scale-75" : ""
+            !isSequenceRunning && (isPrinting || isFolded)
+              ? "opacity-50 cursor-not-allowed scale-75"
+              : isPackEmpty
+                ? "opacity-60"
+                : ""
           } pointer-events-auto z-30`}
         >
-          <div className="w-8 h-8 rounded-full border border-red-800/30 bg-gradient-to-br from-red-400 to-red-700" />
+          <div
+            className={`w-8 h-8 rounded-full border border-red-800/30 bg-gradient-to-br from-red-400 to-red-700 ${
+              isSequenceRunning ? "animate-pulse" : ""
+            }`}
+          />
         </button>
       </div>
-
-      <canvas ref={canvasRef} className="hidden" />
     </div>
   );
 };
\ No newline at end of file
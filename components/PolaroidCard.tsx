@@ -0,0 +1,99 @@
+import React from 'react';
+import { FilmFormat } from '../types';
+import { cardGeometry, frameTop } from '../utils/filmFormat';
+import { isStoredUrl } from '../utils/wallStore';
+import { DevelopingImage } from './DevelopingImage';
+
+interface PolaroidCardProps {
+  url: string;
+  format: FilmFormat;
+  width?: number;
+  borderColor?: string;
+  caption?: React.ReactNode;
+  className?: string;
+  style?: React.CSSProperties;
+  imageAlt?: string;
+  developProgress?: number; // Below 1 the frames show the chemistry instead of the image
+  onPointerDown?: (e: React.PointerEvent) => void;
+  // Makes the card a keyboard control too: Enter or Space runs `onAction`.
+  actionLabel?: string;
+  onAction?: () => void;
+}
+
+/**
+ * The physical print: border, frame(s) and chin laid out from a FilmFormat.
+ * Multi-frame prints store one tall image; each frame window shows its slice.
+ */
+export const PolaroidCard: React.FC<PolaroidCardProps> = ({
+  url,
+  format,
+  width,
+  borderColor = '#ffffff',
+  caption,
+  className = '',
+  style,
+  imageAlt = 'Polaroid',
+  developProgress = 1,
+  onPointerDown,
+  actionLabel,
+  onAction,
+}) => {
+  const g = cardGeometry(format, width);
+  // Saved photos show an empty frame until their image comes out of storage.
+  const isLoading = isStoredUrl(url);
+
+  return (
+    <div
+      className={`relative ${className}`}
+      style={{ width: g.width, height: g.height, backgroundColor: borderColor, ...style }}
+      onPointerDown={onPointerDown}
+      role={onAction ? 'button' : undefined}
+      tabIndex={onAction ? 0 : undefined}
+      aria-label={actionLabel}
+      onKeyDown={onAction && ((e) => {
+        if (e.key !== 'Enter' && e.key !== ' ') return;
+        e.preventDefault();
+        e.stopPropagation();
+        onAction();
+      })}
+    >
+      {Array.from({ length: g.frames }, (_, i) => (
+        <div
+          key={i}
+          className="absolute bg-gray-900 overflow-hidden"
+          style={{ left: g.border, top: frameTop(g, i), width: g.frameWidth, height: g.frameHeight }}
+        >
+          {isLoading ? (
+            <div className="absolute inset-0 animate-pulse bg-gray-800" />
+          ) : developProgress < 1 ? (
+            <DevelopingImage
+              url={url}
+              progress={developProgress}
+              frame={i}
+              frames={g.frames}
+              className="pointer-events-none"
+            />
+          ) : (
+            <img
+              src={url}
+              alt={imageAlt}
+              className="absolute left-0 w-full object-cover pointer-events-none"
+              style={{ top: -i * g.frameHeight, height: g.frameHeight * g.frames }}
+              draggable={false}
+            />
+          )}
+          <div className="absolute inset-0 shadow-[inset_0_0_20px_rgba(0,0,0,0.1)] pointer-events-none bg-gradient-to-tr from-transparent to-white/10"></div>
+        </div>
+      ))}
+
+      {caption && (
+        <div
+          className="absolute left-0 bottom-0 w-full text-center pointer-events-none"
+          style={{ height: g.chin, paddingTop: g.chin * 0.26 }}
+        >
+          {caption}
+        </div>
+      )}
+    </div>
+  );
+};
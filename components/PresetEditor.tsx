@@ -0,0 +1,245 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { X, Upload, Download, Save, Trash2 } from "lucide-react";
+import { FilmPreset, MediaFrame } from "../types";
+import { renderFilmStock, centerSquareCrop } from "../utils/filmEngine";
+import {
+  PRESET_RANGES,
+  PresetValidationError,
+  createSampleFrame,
+  downloadPreset,
+  parsePresetFile,
+  presetToFilmStock,
+  validatePreset,
+} from "../utils/presets";
+
+interface PresetEditorProps {
+  initial: FilmPreset;
+  isNew: boolean;
+  getPreviewFrame: () => MediaFrame | null;
+  previewMirror: boolean;
+  onSave: (preset: FilmPreset) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const THUMB_SIZE = 96;
+
+const SLIDERS: { key: keyof typeof PRESET_RANGES; label: string }[] = [
+  { key: "hue", label: "Hue" },
+  { key: "saturation", label: "Saturation" },
+  { key: "contrast", label: "Contrast" },
+  { key: "vignetteStrength", label: "Vignette" },
+  { key: "overlayOpacity", label: "Overlay" },
+  { key: "bloom", label: "Bloom" },
+  { key: "grain", label: "Grain" },
+  { key: "developTime", label: "Develop" },
+];
+
+export const PresetEditor: React.FC<PresetEditorProps> = ({
+  initial,
+  isNew,
+  getPreviewFrame,
+  previewMirror,
+  onSave,
+  onDelete,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState<FilmPreset>(initial);
+  const [errors, setErrors] = useState<string[]>([]);
+  const thumbRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const sampleFrame = useMemo(() => createSampleFrame(THUMB_SIZE * 2), []);
+
+  const stock = useMemo(() => presetToFilmStock(draft), [draft]);
+
+  // Live thumbnail: camera frame when there is one, sample scene otherwise.
+  useEffect(() => {
+    const canvas = thumbRef.current;
+    const ctx = canvas?.getContext("2d", { willReadFrequently: true });
+    if (!canvas || !ctx) return;
+
+    let frame = 0;
+    const draw = () => {
+      const live = getPreviewFrame();
+      const source = live ? live.source : sampleFrame;
+      const crop = live
+        ? centerSquareCrop(live.width, live.height)
+        : centerSquareCrop(sampleFrame.width, sampleFrame.height);
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      renderFilmStock(ctx, stock, { source, crop, flash: false, mirror: !!live && previewMirror });
+      frame = window.setTimeout(draw, 250);
+    };
+    draw();
+    return () => window.clearTimeout(frame);
+  }, [stock, getPreviewFrame, previewMirror, sampleFrame]);
+
+  const update = <K extends keyof FilmPreset>(key: K, value: FilmPreset[K]) => {
+    setDraft((prev) => ({ ...prev, [key]: value }));
+    setErrors([]);
+  };
+
+  const handleSave = () => {
+    try {
+      onSave(validatePreset(draft));
+    } catch (err) {
+      if (err instanceof PresetValidationError) setErrors(err.issues);
+      else throw err;
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const imported = parsePresetFile(await file.text());
+      // Keep our own id so importing never clobbers an unrelated preset.
+      setDraft({ ...imported, id: draft.id });
+      setErrors([]);
+    } catch (err) {
+      if (err instanceof PresetValidationError) setErrors([`${file.name}:`, ...err.issues]);
+      else setErrors([`${file.name}: could not be read.`]);
+    }
+  };
+
+  const handleExport = () => {
+    try {
+      downloadPreset(validatePreset(draft));
+    } catch (err) {
+      if (err instanceof PresetValidationError) setErrors(err.issues);
+      else throw err;
+    }
+  };
+
+  return (
+    <div
+      className="absolute bottom-full mb-14 left-0 w-[320px] bg-[#fdfbf7] rounded-2xl shadow-[0_10px_30px_rgba(0,0,0,0.3)] border border-gray-200 p-4 pointer-events-auto z-50 font-sans"
+      onPointerDown={(e) => e.stopPropagation()}
+      onMouseDown={(e) => e.stopPropagation()}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <div className="text-[10px] text-gray-400 font-bold uppercase tracking-widest">
+          {isNew ? "New Film" : "Edit Film"}
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1 rounded-full text-gray-500 hover:bg-gray-200"
+          title="Close"
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="flex gap-3 mb-3">
+        <canvas
+          ref={thumbRef}
+          width={THUMB_SIZE}
+          height={THUMB_SIZE}
+          className="w-24 h-24 rounded bg-black shadow-inner shrink-0"
+        />
+        <div className="flex flex-col gap-2 flex-1 min-w-0">
+          <input
+            type="text"
+            value={draft.name}
+            maxLength={40}
+            onChange={(e) => update("name", e.target.value)}
+            className="w-full text-sm px-2 py-1 rounded border border-gray-300 bg-white"
+            placeholder="Film name"
+          />
+          <label className="flex items-center justify-between text-[11px] text-gray-600">
+            Vignette color
+            <input
+              type="color"
+              value={draft.vignetteColor}
+              onChange={(e) => update("vignetteColor", e.target.value)}
+              className="w-8 h-5 cursor-pointer"
+            />
+          </label>
+          <label className="flex items-center justify-between text-[11px] text-gray-600">
+            Overlay color
+            <input
+              type="color"
+              value={draft.overlayColor}
+              onChange={(e) => update("overlayColor", e.target.value)}
+              className="w-8 h-5 cursor-pointer"
+            />
+          </label>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-1.5">
+        {SLIDERS.map(({ key, label }) => {
+          const range = PRESET_RANGES[key];
+          return (
+            <label key={key} className="flex items-center gap-2 text-[11px] text-gray-600">
+              <span className="w-16 shrink-0">{label}</span>
+              <input
+                type="range"
+                min={range.min}
+                max={range.max}
+                step={range.step}
+                value={draft[key]}
+                onChange={(e) => update(key, Number(e.target.value))}
+                className="flex-1 accent-gray-700"
+              />
+              <span className="w-9 text-right tabular-nums">{draft[key]}</span>
+            </label>
+          );
+        })}
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="mt-3 p-2 rounded bg-red-50 border border-red-200 text-[11px] text-red-700 list-none">
+          {errors.map((msg, i) => (
+            <li key={i}>{msg}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center gap-1 mt-3">
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="p-1.5 rounded-full text-gray-600 hover:bg-gray-200"
+          title="Import JSON"
+        >
+          <Upload size={16} />
+        </button>
+        <button
+          type="button"
+          onClick={handleExport}
+          className="p-1.5 rounded-full text-gray-600 hover:bg-gray-200"
+          title="Export JSON"
+        >
+          <Download size={16} />
+        </button>
+        {!isNew && (
+          <button
+            type="button"
+            onClick={() => onDelete(draft.id)}
+            className="p-1.5 rounded-full text-gray-600 hover:bg-red-50 hover:text-red-600"
+            title="Delete Film"
+          >
+            <Trash2 size={16} />
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={handleSave}
+          className="ml-auto flex items-center gap-1 px-3 py-1.5 rounded-full bg-gray-800 text-white text-xs hover:bg-gray-700"
+        >
+          <Save size={14} /> Save
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleImport}
+        />
+      </div>
+    </div>
+  );
+};
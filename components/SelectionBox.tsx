@@ -0,0 +1,366 @@
+import React, { useState } from 'react';
+import { CaptionStamp, FilmStock, PhotoCaption, WallItem, WallViewport } from '../types';
+import { CAPTION_COLORS, CAPTION_FONTS } from '../constants';
+import { RotateCw, Maximize2, Trash2, Download, Aperture, Zap, Undo2, Vibrate, Pause, Play, BringToFront, SendToBack, ArrowUp, ArrowDown, Ungroup, PenLine, FlipHorizontal2, FileText } from 'lucide-react';
+import { getFilmStocks } from '../utils/presets';
+import { developProgressOf, developStage } from '../utils/development';
+import { itemBounds, itemPose, unionBounds } from '../utils/selection';
+import { toScreen } from '../utils/viewport';
+import { captionOf } from '../utils/caption';
+import { isDecoration, isPhoto } from '../utils/decorations';
+import { ZOrderAction, Z_ORDER_LABELS } from '../utils/zOrder';
+import { STAGE_LABELS } from './Photo';
+
+interface SelectionBoxProps {
+  items: WallItem[];
+  viewport: WallViewport;
+  onGestureStart: (mode: 'rotate' | 'scale', e: React.PointerEvent) => void;
+  onDownload: () => void;
+  onDownloadBack: () => void;
+  onDelete: () => void;
+  onShake: () => void;
+  onPauseDevelop: (paused: boolean) => void;
+  onRedevelop: (id: string, tintId: string, flash: boolean) => Promise<void>;
+  onUndoRedevelop: (id: string) => void;
+  onArrange: (action: ZOrderAction) => void;
+  onUnstack: () => void;
+  isWriting: boolean;
+  onWrite: (editing: boolean) => void;
+  onCaptionStyle: (patch: Partial<PhotoCaption>) => void;
+  onFlip: () => void;
+}
+
+const CAPTION_STAMPS: { id: CaptionStamp; label: string }[] = [
+  { id: 'date', label: 'Date' },
+  { id: 'time', label: 'Time' },
+  { id: 'both', label: 'Both' },
+  { id: 'none', label: 'None' },
+];
+
+const Z_ORDER_ICONS: Record<ZOrderAction, React.ReactNode> = {
+  front: <BringToFront size={16} />,
+  forward: <ArrowUp size={16} />,
+  backward: <ArrowDown size={16} />,
+  back: <SendToBack size={16} />,
+};
+
+/**
+ * Handles and toolbar for the current selection. A single item gets a frame
+ * that turns with it; a group gets one upright box around all of its items.
+ * Photo tools only show when there are photos in it. Drawn in screen space
+ * so the handles stay the same size at any zoom.
+ */
+export const SelectionBox: React.FC<SelectionBoxProps> = ({
+  items,
+  viewport,
+  onGestureStart,
+  onDownload,
+  onDownloadBack,
+  onDelete,
+  onShake,
+  onPauseDevelop,
+  onRedevelop,
+  onUndoRedevelop,
+  onArrange,
+  onUnstack,
+  isWriting,
+  onWrite,
+  onCaptionStyle,
+  onFlip
+}) => {
+  const [redevelopStocks, setRedevelopStocks] = useState<FilmStock[] | null>(null);
+  const [isRedeveloping, setIsRedeveloping] = useState(false);
+
+  const photos = items.filter(isPhoto);
+  const lone = items.length === 1 ? items[0] : null;
+  const single = lone && isPhoto(lone) ? lone : null;
+  const doodle = lone && isDecoration(lone) && lone.kind === 'text' ? lone : null;
+  // What the pen panel shows as current: a caption's style or a doodle's.
+  const pen = single ? captionOf(single) : doodle;
+  const developing = photos.filter(p => p.isDeveloping);
+  const allPaused = developing.length > 0 && developing.every(p => p.developPaused);
+  const canSave = developing.length < photos.length;
+  const canRedevelop = !!single?.rawUrl && !!single.recipe;
+  const isStacked = photos.some(p => p.stackId);
+  const backs = photos.filter(p => p.back?.trim()).length;
+
+  // World-space frame, then onto the screen.
+  let frame: { left: number; top: number; width: number; height: number; rotation: number };
+  if (lone) {
+    const pose = itemPose(lone);
+    const width = pose.width * pose.scale;
+    const height = pose.height * pose.scale;
+    frame = { left: pose.center.x - width / 2, top: pose.center.y - height / 2, width, height, rotation: pose.rotation };
+  } else {
+    const bounds = unionBounds(items.map(itemBounds));
+    if (!bounds) return null;
+    frame = { left: bounds.left, top: bounds.top, width: bounds.right - bounds.left, height: bounds.bottom - bounds.top, rotation: 0 };
+  }
+  const topLeft = toScreen(viewport, { x: frame.left, y: frame.top });
+  frame = { ...frame, left: topLeft.x, top: topLeft.y, width: frame.width * viewport.zoom, height: frame.height * viewport.zoom };
+
+  const saveTitle = single?.isDeveloping
+    ? `${STAGE_LABELS[developStage(developProgressOf(single))]} Save when developed`
+    : !canSave
+      ? 'Save when developed'
+      : single
+        ? 'Save Photo'
+        : `Save ${photos.length - developing.length} Photos`;
+
+  const handleRedevelop = async (tintId: string, flash: boolean) => {
+    if (!single || isRedeveloping) return;
+    setIsRedeveloping(true);
+    try {
+      await onRedevelop(single.id, tintId, flash);
+    } catch (err) {
+      console.error('re-develop failed', err);
+    } finally {
+      setIsRedeveloping(false);
+    }
+  };
+
+  const handleGestureStart = (mode: 'rotate' | 'scale') => (e: React.PointerEvent) => {
+    e.stopPropagation();
+    e.preventDefault();
+    onGestureStart(mode, e);
+  };
+
+  return (
+    <div
+      className="absolute pointer-events-none"
+      style={{
+        left: frame.left,
+        top: frame.top,
+        width: frame.width,
+        height: frame.height,
+        transform: `rotate(${frame.rotation}deg)`,
+        transformOrigin: 'center center',
+        zIndex: 60,
+      }}
+    >
+      <div className={`absolute -inset-2 border-2 border-blue-400/40 rounded-lg ${lone ? '' : 'border-dashed'}`}></div>
+
+      {/* A row above the rotate handle, so however many tools a photo has they can't cover it. */}
+      <div
+        className="absolute -top-24 right-0 flex items-center gap-1 bg-white/90 backdrop-blur-sm rounded-full p-1.5 shadow-sm border border-gray-200/60 z-30 pointer-events-auto animate-in fade-in slide-in-from-bottom-2 duration-200"
+        onPointerDown={(e) => e.stopPropagation()}
+      >
+         {!lone && (
+           <span className="px-1.5 font-sans text-[11px] text-gray-500">{items.length}</span>
+         )}
+         {photos.length > 0 && (
+           <button
+              onClick={(e) => { e.stopPropagation(); onDownload(); }}
+              disabled={!canSave}
+              className="p-1.5 hover:bg-blue-50 text-gray-600 hover:text-blue-600 rounded-full transition-colors disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-gray-600"
+              title={saveTitle}
+              // Touch friendly buttons
+              style={{ touchAction: 'manipulation' }}
+           >
+              <Download size={16} />
+           </button>
+         )}
+         {backs > 0 && (
+           <button
+              onClick={(e) => { e.stopPropagation(); onDownloadBack(); }}
+              className="p-1.5 hover:bg-blue-50 text-gray-600 hover:text-blue-600 rounded-full transition-colors"
+              title={backs === 1 ? 'Save Back' : `Save ${backs} Backs`}
+              style={{ touchAction: 'manipulation' }}
+           >
+              <FileText size={16} />
+           </button>
+         )}
+         {developing.length > 0 && (
+           <>
+             <button
+                onClick={(e) => { e.stopPropagation(); onShake(); }}
+                disabled={allPaused}
+                className="p-1.5 hover:bg-blue-50 text-gray-600 hover:text-blue-600 rounded-full transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                title="Shake to Develop"
+                style={{ touchAction: 'manipulation' }}
+             >
+                <Vibrate size={16} />
+             </button>
+             <button
+                onClick={(e) => { e.stopPropagation(); onPauseDevelop(!allPaused); }}
+                className="p-1.5 hover:bg-blue-50 text-gray-600 hover:text-blue-600 rounded-full transition-colors"
+                title={allPaused ? 'Resume Developing' : 'Pause Developing'}
+                style={{ touchAction: 'manipulation' }}
+             >
+                {allPaused ? <Play size={16} /> : <Pause size={16} />}
+             </button>
+           </>
+         )}
+         {(single || doodle) && (
+           <button
+              // Leave focus in the caption field so this can close it.
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={(e) => { e.stopPropagation(); setRedevelopStocks(null); onWrite(!isWriting); }}
+              className={`p-1.5 hover:bg-blue-50 hover:text-blue-600 rounded-full transition-colors ${isWriting ? 'text-blue-600 bg-blue-50' : 'text-gray-600'}`}
+              title={doodle ? 'Edit Doodle (or double-click it)' : single?.flipped ? 'Write on Back (or double-click the photo)' : 'Write Caption (or double-click the photo)'}
+              style={{ touchAction: 'manipulation' }}
+           >
+              <PenLine size={16} />
+           </button>
+         )}
+         {photos.length > 0 && (
+           <button
+              onClick={(e) => { e.stopPropagation(); onFlip(); }}
+              className="p-1.5 hover:bg-blue-50 text-gray-600 hover:text-blue-600 rounded-full transition-colors"
+              title={photos.every(p => p.flipped) ? 'Turn Face Up' : 'Turn Over'}
+              style={{ touchAction: 'manipulation' }}
+           >
+              <FlipHorizontal2 size={16} />
+           </button>
+         )}
+         {canRedevelop && (
+           <button
+              onClick={(e) => { e.stopPropagation(); setRedevelopStocks(redevelopStocks ? null : getFilmStocks()); }}
+              className={`p-1.5 hover:bg-blue-50 hover:text-blue-600 rounded-full transition-colors ${redevelopStocks ? 'text-blue-600 bg-blue-50' : 'text-gray-600'}`}
+              title="Re-develop"
+              style={{ touchAction: 'manipulation' }}
+           >
+              <Aperture size={16} className={isRedeveloping ? 'animate-spin' : ''} />
+           </button>
+         )}
+         <div className="w-[1px] h-4 bg-gray-300"></div>
+         {(Object.keys(Z_ORDER_ICONS) as ZOrderAction[]).map(action => (
+           <button
+              key={action}
+              onClick={(e) => { e.stopPropagation(); onArrange(action); }}
+              className="p-1.5 hover:bg-blue-50 text-gray-600 hover:text-blue-600 rounded-full transition-colors"
+              title={Z_ORDER_LABELS[action]}
+              style={{ touchAction: 'manipulation' }}
+           >
+              {Z_ORDER_ICONS[action]}
+           </button>
+         ))}
+         {isStacked && (
+           <button
+              onClick={(e) => { e.stopPropagation(); onUnstack(); }}
+              className="p-1.5 hover:bg-blue-50 text-gray-600 hover:text-blue-600 rounded-full transition-colors"
+              title="Unstack"
+              style={{ touchAction: 'manipulation' }}
+           >
+              <Ungroup size={16} />
+           </button>
+         )}
+         <div className="w-[1px] h-4 bg-gray-300"></div>
+         <button
+            onClick={(e) => { e.stopPropagation(); onDelete(); }}
+            className="p-1.5 hover:bg-red-50 text-gray-600 hover:text-red-600 rounded-full transition-colors"
+            title={single ? 'Delete Photo' : lone ? 'Delete' : `Delete ${items.length} Items`}
+            style={{ touchAction: 'manipulation' }}
+         >
+            <Trash2 size={16} />
+         </button>
+      </div>
+
+      {isWriting && pen && (
+        <div
+          className="absolute -top-36 right-0 flex items-center gap-1 bg-white/90 backdrop-blur-sm rounded-full p-1.5 shadow-sm border border-gray-200/60 z-30 pointer-events-auto font-sans text-[11px] text-gray-600"
+          onPointerDown={(e) => e.stopPropagation()}
+          // Keep focus in the caption field while its style is changed.
+          onMouseDown={(e) => e.preventDefault()}
+        >
+           {CAPTION_FONTS.map(font => (
+             <button
+                key={font.id}
+                title={font.name}
+                onClick={(e) => { e.stopPropagation(); onCaptionStyle({ fontId: font.id }); }}
+                className={`px-1.5 rounded-full text-sm ${pen.fontId === font.id ? 'bg-gray-800 text-white' : 'hover:bg-gray-100'}`}
+                style={{ fontFamily: font.family, touchAction: 'manipulation' }}
+             >
+                Aa
+             </button>
+           ))}
+           <div className="w-[1px] h-4 bg-gray-300 mx-0.5"></div>
+           {CAPTION_COLORS.map(color => (
+             <button
+                key={color}
+                title="Marker Color"
+                onClick={(e) => { e.stopPropagation(); onCaptionStyle({ color }); }}
+                className={`w-4 h-4 rounded-full shadow-sm hover:scale-125 transition-all ${
+                  pen.color === color ? 'ring-2 ring-offset-1 ring-gray-400' : ''
+                }`}
+                style={{ backgroundColor: color, touchAction: 'manipulation' }}
+             />
+           ))}
+           {/* The back has no date stamp; it's printed there already. */}
+           {single && !single.flipped && <div className="w-[1px] h-4 bg-gray-300 mx-0.5"></div>}
+           {single && !single.flipped && CAPTION_STAMPS.map(stamp => (
+             <button
+                key={stamp.id}
+                title={`Show ${stamp.id === 'none' ? 'no date or time' : stamp.label.toLowerCase()}`}
+                onClick={(e) => { e.stopPropagation(); onCaptionStyle({ stamp: stamp.id }); }}
+                className={`px-1.5 py-0.5 rounded-full ${captionOf(single).stamp === stamp.id ? 'bg-gray-800 text-white' : 'hover:bg-gray-100'}`}
+                style={{ touchAction: 'manipulation' }}
+             >
+                {stamp.label}
+             </button>
+           ))}
+        </div>
+      )}
+
+      {redevelopStocks && single?.recipe && (
+        <div
+          className="absolute -top-36 right-0 flex items-center gap-1 bg-white/90 backdrop-blur-sm rounded-full p-1.5 shadow-sm border border-gray-200/60 z-30 pointer-events-auto"
+          onPointerDown={(e) => e.stopPropagation()}
+        >
+           {redevelopStocks.map(stock => (
+             <button
+                key={stock.id}
+                title={stock.name}
+                disabled={isRedeveloping}
+                onClick={(e) => { e.stopPropagation(); handleRedevelop(stock.id, single.recipe!.flash); }}
+                className={`w-4 h-4 rounded-full ${stock.color} shadow-sm hover:scale-125 transition-all ${
+                  single.recipe!.tintId === stock.id ? 'ring-2 ring-offset-1 ring-gray-400' : 'opacity-60 hover:opacity-100'
+                }`}
+                style={{ touchAction: 'manipulation', ...(stock.swatch ? { backgroundColor: stock.swatch } : {}) }}
+             />
+           ))}
+           <div className="w-[1px] h-4 bg-gray-300 mx-0.5"></div>
+           <button
+              title={single.recipe.flash ? 'Flash On' : 'Flash Off'}
+              disabled={isRedeveloping}
+              onClick={(e) => { e.stopPropagation(); handleRedevelop(single.recipe!.tintId, !single.recipe!.flash); }}
+              className={`p-1 rounded-full hover:bg-orange-50 transition-colors ${single.recipe.flash ? 'text-orange-500' : 'text-gray-400'}`}
+              style={{ touchAction: 'manipulation' }}
+           >
+              <Zap size={14} />
+           </button>
+           <button
+              title="Undo Re-develop"
+              disabled={isRedeveloping || !single.developHistory?.length}
+              onClick={(e) => { e.stopPropagation(); onUndoRedevelop(single.id); }}
+              className="p-1 rounded-full text-gray-600 hover:bg-blue-50 hover:text-blue-600 transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+              style={{ touchAction: 'manipulation' }}
+           >
+              <Undo2 size={14} />
+           </button>
+        </div>
+      )}
+
+      {/* Rotate Handle */}
+      <div
+        className="absolute -top-12 left-1/2 -translate-x-1/2 w-8 h-8 bg-white text-gray-700 rounded-full shadow-sm border border-gray-200 flex items-center justify-center cursor-move z-20 pointer-events-auto hover:bg-blue-50 transition-colors"
+        onPointerDown={handleGestureStart('rotate')}
+        title="Rotate"
+        style={{ touchAction: 'none' }}
+      >
+        <div className="h-4 w-[1px] bg-blue-400 absolute -bottom-4 left-1/2 pointer-events-none opacity-50"></div>
+        <RotateCw size={14} />
+      </div>
+
+      {/* Resize Handle */}
+      <div
+        className="absolute -bottom-3 -right-3 w-7 h-7 bg-white text-gray-700 rounded-full shadow-sm border border-gray-200 flex items-center justify-center cursor-nwse-resize z-20 pointer-events-auto hover:bg-blue-50 transition-colors"
+        onPointerDown={handleGestureStart('scale')}
+        title="Resize"
+        style={{ touchAction: 'none' }}
+      >
+        <Maximize2 size={12} />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+import React from "react";
+import { X } from "lucide-react";
+
+interface ToastProps {
+  message: string;
+  actionLabel?: string;
+  onAction?: () => void;
+  onDismiss: () => void;
+}
+
+export const Toast: React.FC<ToastProps> = ({ message, actionLabel, onAction, onDismiss }) => (
+  <div
+    className="fixed bottom-8 left-1/2 -translate-x-1/2 z-[60] flex items-center gap-3 pl-4 pr-2 py-2 rounded-full bg-gray-800 text-white text-sm font-sans shadow-lg animate-in fade-in slide-in-from-bottom-2 duration-200"
+    role="status"
+    onMouseDown={(e) => e.stopPropagation()}
+    onTouchStart={(e) => e.stopPropagation()}
+  >
+    <span>{message}</span>
+    {actionLabel && onAction && (
+      <button
+        type="button"
+        onClick={onAction}
+        className="px-2 py-0.5 rounded-full font-bold text-amber-300 hover:bg-white/10"
+      >
+        {actionLabel}
+      </button>
+    )}
+    <button
+      type="button"
+      onClick={onDismiss}
+      className="p-1 rounded-full text-gray-400 hover:text-white hover:bg-white/10"
+      title="Dismiss"
+    >
+      <X size={14} />
+    </button>
+  </div>
+);
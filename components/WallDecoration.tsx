@@ -0,0 +1,147 @@
+import React from 'react';
+import { DOODLE_MAX_LENGTH } from '../constants';
+import { Decoration } from '../types';
+import { captionFont } from '../utils/caption';
+import { DECORATION_LABELS, DOODLE_SIZE, decorationSize, strokePath, tapeOutline } from '../utils/decorations';
+import { ITEM_KEY_SHORTCUTS, isKeyboardFocus } from '../utils/keyboard';
+import { PIN_GLINT, PIN_HEAD, PIN_SHADOW_OFFSET, STICKER_FONT_SIZE } from '../utils/decorationRenderer';
+
+interface WallDecorationProps {
+  data: Decoration;
+  zIndex: number;
+  isSelected: boolean;
+  isAnimated?: boolean;
+  isWriting?: boolean;
+  onPointerDown: (e: React.PointerEvent, id: string) => void;
+  onWrite: (id: string) => void;
+  onTextChange: (id: string, text: string) => void;
+  onWritingDone: () => void;
+  onKeyboardFocus: (id: string) => void;
+}
+
+/**
+ * Tape, pins, stickers, doodles and pen lines on the wall. Drawn to match
+ * drawDecoration, so exports look the same.
+ */
+export const WallDecoration: React.FC<WallDecorationProps> = ({
+  data,
+  zIndex,
+  isSelected,
+  isAnimated = false,
+  isWriting = false,
+  onPointerDown,
+  onWrite,
+  onTextChange,
+  onWritingDone,
+  onKeyboardFocus
+}) => {
+  const { width, height } = decorationSize(data);
+  const noun = DECORATION_LABELS[data.kind];
+  const label = data.kind === 'sticker' ? `${data.emoji} sticker`
+    : data.kind === 'text' && data.text.trim() ? `Doodle: ${data.text.trim()}`
+    : noun.charAt(0).toUpperCase() + noun.slice(1);
+
+  const renderContent = () => {
+    switch (data.kind) {
+      case 'tape':
+        return (
+          <svg width={width} height={height} className="block">
+            <polygon points={tapeOutline(width, height).map(p => `${p.x},${p.y}`).join(' ')} fill={data.color} />
+          </svg>
+        );
+      case 'pin':
+        return (
+          <svg width={width} height={height} className="block">
+            <circle cx={(PIN_HEAD.cx + PIN_SHADOW_OFFSET) * width} cy={(PIN_HEAD.cy + PIN_SHADOW_OFFSET) * height} r={PIN_HEAD.r * width} fill="rgba(0, 0, 0, 0.2)" />
+            <circle cx={PIN_HEAD.cx * width} cy={PIN_HEAD.cy * height} r={PIN_HEAD.r * width} fill={data.color} />
+            <circle cx={PIN_GLINT.cx * width} cy={PIN_GLINT.cy * height} r={PIN_GLINT.r * width} fill="rgba(255, 255, 255, 0.6)" />
+          </svg>
+        );
+      case 'sticker':
+        return (
+          <span
+            className="block text-center"
+            style={{ fontSize: height * STICKER_FONT_SIZE, lineHeight: `${height}px`, fontFamily: 'sans-serif' }}
+          >
+            {data.emoji}
+          </span>
+        );
+      case 'text': {
+        const style: React.CSSProperties = {
+          fontFamily: captionFont(data.fontId).family,
+          fontSize: DOODLE_SIZE,
+          lineHeight: `${height}px`,
+          color: data.color,
+        };
+        return isWriting ? (
+          <input
+            autoFocus
+            value={data.text}
+            maxLength={DOODLE_MAX_LENGTH}
+            aria-label="Doodle text"
+            className="block w-full bg-transparent text-center outline-none"
+            style={style}
+            onPointerDown={(e) => e.stopPropagation()}
+            onChange={(e) => onTextChange(data.id, e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === 'Escape') e.currentTarget.blur();
+            }}
+            onBlur={onWritingDone}
+          />
+        ) : (
+          <p className="text-center whitespace-nowrap" style={style}>
+            {data.text}
+          </p>
+        );
+      }
+      case 'stroke':
+        return (
+          <svg width={width} height={height} className="block overflow-visible">
+            <path
+              d={strokePath(data.points)}
+              fill="none"
+              stroke={data.color}
+              strokeWidth={data.lineWidth}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            />
+          </svg>
+        );
+    }
+  };
+
+  return (
+    <div
+      data-item-id={data.id}
+      tabIndex={0}
+      role="group"
+      aria-label={label}
+      aria-keyshortcuts={ITEM_KEY_SHORTCUTS}
+      className="absolute cursor-grab select-none"
+      style={{
+        left: data.x,
+        top: data.y,
+        width,
+        height,
+        transform: `rotate(${data.rotation}deg) scale(${data.scale})`,
+        transformOrigin: 'center center',
+        zIndex,
+        filter: isSelected ? 'drop-shadow(0 4px 6px rgba(0,0,0,0.25))' : undefined,
+        transition: isAnimated ? 'left 0.3s ease-out, top 0.3s ease-out, transform 0.3s ease-out' : undefined,
+        touchAction: 'none',
+      }}
+      onPointerDown={(e) => {
+        e.stopPropagation();
+        onPointerDown(e, data.id);
+      }}
+      onFocus={(e) => isKeyboardFocus(e) && onKeyboardFocus(data.id)}
+      onDoubleClick={(e) => {
+        if (data.kind !== 'text') return;
+        e.stopPropagation();
+        onWrite(data.id);
+      }}
+    >
+      {renderContent()}
+    </div>
+  );
+};
@@ -0,0 +1,142 @@
+import React, { useState } from "react";
+import { AlertTriangle, HardDrive, Redo2, Trash2, Undo2 } from "lucide-react";
+import { WallStorageStatus } from "../hooks/useWallPersistence";
+import { StorageEstimate } from "../utils/wallStore";
+
+interface WallToolbarProps {
+  photoCount: number;
+  decorationCount: number;
+  status: WallStorageStatus;
+  storage: StorageEstimate | null;
+  isStorageLow: boolean;
+  saveError: string | null;
+  onClearWall: () => void;
+  undoLabel: string | null;
+  redoLabel: string | null;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+};
+
+export const WallToolbar: React.FC<WallToolbarProps> = ({
+  photoCount,
+  decorationCount,
+  status,
+  storage,
+  isStorageLow,
+  saveError,
+  onClearWall,
+  undoLabel,
+  redoLabel,
+  onUndo,
+  onRedo,
+}) => {
+  const [isConfirmingClear, setIsConfirmingClear] = useState(false);
+
+  const storageLabel =
+    status === "loading"
+      ? "Loading wall…"
+      : status === "unavailable"
+        ? "Not saving"
+        : storage
+          ? formatBytes(storage.usage)
+          : "Saved";
+
+  return (
+    <div
+      className="fixed top-4 right-4 z-40 flex flex-col items-end gap-2 font-sans text-[11px] text-gray-600"
+      onMouseDown={(e) => e.stopPropagation()}
+      onTouchStart={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center gap-1 bg-white/90 backdrop-blur-sm rounded-full p-1.5 shadow-sm border border-gray-200/60">
+        <button
+          type="button"
+          onClick={onUndo}
+          disabled={!undoLabel}
+          className="p-1.5 rounded-full text-gray-600 hover:bg-blue-50 hover:text-blue-600 transition-colors disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-gray-600"
+          title={undoLabel ? `Undo ${undoLabel.toLowerCase()} (Ctrl+Z)` : "Nothing to undo"}
+        >
+          <Undo2 size={16} />
+        </button>
+        <button
+          type="button"
+          onClick={onRedo}
+          disabled={!redoLabel}
+          className="p-1.5 rounded-full text-gray-600 hover:bg-blue-50 hover:text-blue-600 transition-colors disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-gray-600"
+          title={redoLabel ? `Redo ${redoLabel.toLowerCase()} (Ctrl+Shift+Z)` : "Nothing to redo"}
+        >
+          <Redo2 size={16} />
+        </button>
+        <div className="w-[1px] h-4 bg-gray-300"></div>
+        <span
+          className={`flex items-center gap-1 px-2 ${
+            isStorageLow || status === "unavailable" ? "text-amber-600" : "text-gray-500"
+          }`}
+          title={
+            status === "unavailable"
+              ? "This browser won't let the wall be saved; photos are lost on reload."
+              : storage
+                ? `${formatBytes(storage.usage)} of ${formatBytes(storage.quota)} used`
+                : undefined
+          }
+        >
+          {isStorageLow || status === "unavailable" ? (
+            <AlertTriangle size={14} />
+          ) : (
+            <HardDrive size={14} />
+          )}
+          {storageLabel}
+        </span>
+        <div className="w-[1px] h-4 bg-gray-300"></div>
+        <button
+          type="button"
+          onClick={() => setIsConfirmingClear(true)}
+          disabled={photoCount + decorationCount === 0 || status === "loading"}
+          className="p-1.5 rounded-full text-gray-600 hover:bg-red-50 hover:text-red-600 transition-colors disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-gray-600"
+          title="Clear Wall"
+        >
+          <Trash2 size={16} />
+        </button>
+      </div>
+
+      {isConfirmingClear && (
+        <div className="w-[240px] bg-[#fdfbf7] rounded-2xl shadow-[0_10px_30px_rgba(0,0,0,0.3)] border border-gray-200 p-3">
+          <p className="mb-2">
+            Remove all {photoCount} {photoCount === 1 ? "photo" : "photos"}
+            {decorationCount > 0 && " and decorations"} from the wall? This can't be undone.
+          </p>
+          <div className="flex justify-end gap-1">
+            <button
+              type="button"
+              onClick={() => setIsConfirmingClear(false)}
+              className="px-3 py-1 rounded-full hover:bg-gray-200"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setIsConfirmingClear(false);
+                onClearWall();
+              }}
+              className="px-3 py-1 rounded-full bg-red-600 text-white hover:bg-red-500"
+            >
+              Clear Wall
+            </button>
+          </div>
+        </div>
+      )}
+
+      {saveError && (
+        <div className="max-w-[240px] px-3 py-2 rounded-lg bg-red-50 border border-red-200 text-red-700">
+          {saveError}
+        </div>
+      )}
+    </div>
+  );
+};
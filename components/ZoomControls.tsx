@@ -0,0 +1,88 @@
+import React from "react";
+import { Hand, Layers, Scan, SquareDashedMousePointer, ZoomIn, ZoomOut } from "lucide-react";
+import { WALL_ZOOM_MAX, WALL_ZOOM_MIN } from "../constants";
+import { WallTool } from "../types";
+
+interface ZoomControlsProps {
+  zoom: number;
+  tool: WallTool;
+  onToolChange: (tool: WallTool) => void;
+  stackOnDrop: boolean;
+  onStackOnDropChange: (stackOnDrop: boolean) => void;
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onResetZoom: () => void;
+  onFit: () => void;
+}
+
+const buttonClass =
+  "p-1.5 rounded-full text-gray-600 hover:bg-blue-50 hover:text-blue-600 transition-colors disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-gray-600";
+
+export const ZoomControls: React.FC<ZoomControlsProps> = ({
+  zoom,
+  tool,
+  onToolChange,
+  stackOnDrop,
+  onStackOnDropChange,
+  onZoomIn,
+  onZoomOut,
+  onResetZoom,
+  onFit,
+}) => (
+  <div className="flex items-center gap-1 bg-white/90 backdrop-blur-sm rounded-full p-1.5 shadow-sm border border-gray-200/60 font-sans text-[11px] text-gray-600">
+    <button
+      type="button"
+      onClick={() => onToolChange("pan")}
+      className={`${buttonClass} ${tool === "pan" ? "bg-blue-50 text-blue-600" : ""}`}
+      title="Drag to pan (middle mouse always pans)"
+    >
+      <Hand size={16} />
+    </button>
+    <button
+      type="button"
+      onClick={() => onToolChange("select")}
+      className={`${buttonClass} ${tool === "select" ? "bg-blue-50 text-blue-600" : ""}`}
+      title="Drag to select (or hold Shift)"
+    >
+      <SquareDashedMousePointer size={16} />
+    </button>
+    <button
+      type="button"
+      onClick={() => onStackOnDropChange(!stackOnDrop)}
+      className={`${buttonClass} ${stackOnDrop ? "bg-blue-50 text-blue-600" : ""}`}
+      title={stackOnDrop ? "Stacking On: photos dropped on a photo pile up" : "Stacking Off"}
+    >
+      <Layers size={16} />
+    </button>
+    <div className="w-[1px] h-4 bg-gray-300"></div>
+    <button
+      type="button"
+      onClick={onZoomOut}
+      disabled={zoom <= WALL_ZOOM_MIN}
+      className={buttonClass}
+      title="Zoom Out"
+    >
+      <ZoomOut size={16} />
+    </button>
+    <button
+      type="button"
+      onClick={onResetZoom}
+      className="w-11 py-1 rounded-full text-center tabular-nums hover:bg-blue-50 hover:text-blue-600 transition-colors"
+      title="Reset to 100%"
+    >
+      {Math.round(zoom * 100)}%
+    </button>
+    <button
+      type="button"
+      onClick={onZoomIn}
+      disabled={zoom >= WALL_ZOOM_MAX}
+      className={buttonClass}
+      title="Zoom In"
+    >
+      <ZoomIn size={16} />
+    </button>
+    <button type="button" onClick={onFit} className={buttonClass} title="Show All Photos">
+      <Scan size={16} />
+    </button>
+  </div>
+);
@@ -1,3 +1,250 @@
+import { CaptionFont, CaptureResolution, ExposureBlend, FilmFormat, FilmStage, FilmStock, PhotoCaption, WallBackground } from './types';
+import { both, flashOnly, grain, noFlashOnly, vignette } from './utils/filmEngine';
+
 export const PHOTO_WIDTH = 240; // px
 export const PHOTO_HEIGHT = 290; // px (including chin)
+export const PHOTO_SCALE_MIN = 0.3;
+export const PHOTO_SCALE_MAX = 3;
 export const DEVELOP_TIME = 5000; // ms
+export const DEVELOP_TICK = 100; // ms between progress updates
+// "Shake to develop": each shake runs the chemistry faster for a moment.
+export const SHAKE_SPEEDUP = 4;
+export const SHAKE_DURATION = 1200; // ms
+
+// Wall persistence: saves wait for a pause in edits (a drag fires dozens per
+// second) but never lag further behind than the max wait.
+export const WALL_SAVE_DEBOUNCE = 400; // ms
+export const WALL_SAVE_MAX_WAIT = 2000; // ms
+export const STORAGE_WARNING_RATIO = 0.9; // of the browser's quota
+
+// Wall viewport. Buttons step the zoom by a fixed factor.
+export const WALL_ZOOM_MIN = 0.1;
+export const WALL_ZOOM_MAX = 4;
+export const WALL_ZOOM_STEP = 1.25;
+// A press that moves less than this is a click or tap, not a drag.
+export const TAP_SLOP = 4; // px
+// A trackpad pinch is a burst of ctrl+wheel events; this long a pause ends it.
+export const PINCH_WHEEL_PAUSE = 300; // ms
+// Keyboard control of the selection; Shift takes the large steps.
+export const NUDGE_STEP = 5; // px on screen
+export const NUDGE_STEP_LARGE = 50; // px on screen
+export const ROTATE_STEP = 5; // degrees
+export const ROTATE_STEP_LARGE = 15; // degrees
+export const SCALE_STEP = 1.1; // factor per press
+// How long items glide into a new layout; matches their CSS transition.
+export const ARRANGE_DURATION = 300; // ms
+
+// What each board's wall looks like behind the photos.
+export const WALL_BACKGROUNDS: WallBackground[] = [
+  { id: 'dots', name: 'Dots', color: '#e2e8f0', mark: 'dots', ink: 'rgba(100, 116, 139, 0.25)', size: 1, tile: 24 },
+  { id: 'grid', name: 'Grid Paper', color: '#f8fafc', mark: 'lines', ink: 'rgba(59, 130, 246, 0.12)', size: 1, tile: 32 },
+  { id: 'cork', name: 'Cork', color: '#c9a27a', mark: 'dots', ink: 'rgba(110, 70, 30, 0.35)', size: 1.5, tile: 9 },
+  { id: 'felt', name: 'Felt', color: '#334155', mark: 'dots', ink: 'rgba(255, 255, 255, 0.08)', size: 1, tile: 6 },
+];
+export const BOARD_NAME_MAX_LENGTH = 40;
+
+// Whole-wall exports: wall px are screen px (96 per inch) times the chosen
+// multiplier. Images past the pixel budget come out at a lower one, since
+// browsers refuse canvases much bigger.
+export const WALL_EXPORT_SCALES = [1, 2, 3, 4];
+export const WALL_EXPORT_MARGIN = 40; // px of wall around what's exported
+export const WALL_EXPORT_MAX_PIXELS = 64_000_000;
+export const WALL_EXPORT_MAX_SIDE = 16384; // px
+// PDFs are printed at true size, one A4 sheet per page.
+export const PDF_PAGE_WIDTH = 595.28; // pt
+export const PDF_PAGE_HEIGHT = 841.89; // pt
+
+// Undo keeps this many steps; the oldest fall off.
+export const HISTORY_LIMIT = 100;
+export const TOAST_DURATION = 5000; // ms
+
+// ---------------------------------------
+// FILM FORMATS
+// ---------------------------------------
+export const FILM_FORMATS: FilmFormat[] = [
+  // The original card: 240x290 with a 12px border and 216px square frame.
+  {
+    id: 'square',
+    name: 'Square',
+    aspect: 1,
+    border: 12 / PHOTO_WIDTH,
+    top: 12 / PHOTO_WIDTH,
+    chin: (PHOTO_HEIGHT - 12 - 216) / PHOTO_WIDTH,
+    frames: 1,
+    gap: 0,
+    cardWidth: PHOTO_WIDTH,
+  },
+  // 54x86mm card, 46x62mm frame.
+  {
+    id: 'instax-mini',
+    name: 'Mini',
+    aspect: 46 / 62,
+    border: 4 / 54,
+    top: 7 / 54,
+    chin: 17 / 54,
+    frames: 1,
+    gap: 0,
+    cardWidth: 200,
+  },
+  // 108x86mm card, 99x62mm frame.
+  {
+    id: 'instax-wide',
+    name: 'Wide',
+    aspect: 99 / 62,
+    border: 4.5 / 108,
+    top: 7 / 108,
+    chin: 17 / 108,
+    frames: 1,
+    gap: 0,
+    cardWidth: 320,
+  },
+  // Four 4:3 frames on a narrow booth strip.
+  {
+    id: 'strip',
+    name: 'Strip',
+    aspect: 4 / 3,
+    border: 0.08,
+    top: 0.08,
+    chin: 0.25,
+    frames: 4,
+    gap: 0.04,
+    cardWidth: 160,
+  },
+];
+export const DEFAULT_FORMAT_ID = 'square';
+
+// Pause between the frames of a multi-frame format.
+export const STRIP_FRAME_INTERVAL = 700; // ms
+
+// ---------------------------------------
+// CAPTIONS
+// ---------------------------------------
+// Handwriting faces, loaded from Google Fonts in index.html.
+export const CAPTION_FONTS: CaptionFont[] = [
+  { id: 'marker', name: 'Marker', family: '"Permanent Marker", cursive' },
+  { id: 'script', name: 'Script', family: '"Caveat", cursive' },
+  { id: 'scrawl', name: 'Scrawl', family: '"Gochi Hand", cursive' },
+  { id: 'neat', name: 'Neat', family: '"Shadows Into Light", cursive' },
+];
+export const CAPTION_COLORS = ['#4b5563', '#111827', '#1d4ed8', '#b91c1c', '#15803d'];
+export const CAPTION_MAX_LENGTH = 40;
+export const BACK_MAX_LENGTH = 300;
+// What a print says before anyone writes on it: the time it was taken.
+export const DEFAULT_CAPTION: PhotoCaption = {
+  text: '',
+  fontId: 'marker',
+  color: CAPTION_COLORS[0],
+  stamp: 'time',
+};
+
+// ---------------------------------------
+// DECORATIONS
+// ---------------------------------------
+// Washi tape is see-through; pins are glossy plastic.
+export const TAPE_COLORS = [
+  'rgba(244, 114, 182, 0.55)',
+  'rgba(250, 204, 21, 0.55)',
+  'rgba(96, 165, 250, 0.55)',
+  'rgba(74, 222, 128, 0.55)',
+  'rgba(214, 211, 209, 0.7)',
+];
+export const PIN_COLORS = ['#ef4444', '#3b82f6', '#f59e0b', '#10b981', '#8b5cf6'];
+export const STICKER_EMOJI = ['⭐', '❤️', '🌸', '✨', '🌈', '🔥', '😎', '🎉', '☀️', '🍒'];
+export const DOODLE_MAX_LENGTH = 60;
+export const PEN_WIDTH = 4; // px at scale 1
+
+// ---------------------------------------
+// DRIVE
+// ---------------------------------------
+export const SELF_TIMER_OPTIONS = [0, 3, 10]; // s, 0 = off
+export const BURST_COUNT_OPTIONS = [3, 5, 8];
+export const BURST_INTERVAL_OPTIONS = [500, 1000, 2000]; // ms
+export const DEFAULT_BURST_COUNT = 3;
+export const DEFAULT_BURST_INTERVAL = 1000; // ms
+// Photo-booth mode always shoots a strip and counts down before every frame.
+export const BOOTH_FORMAT_ID = 'strip';
+export const BOOTH_FRAME_COUNTDOWN = 3; // s
+
+// Polaroid packs hold 8, Instax 10.
+export const FILM_PACK_SIZES = [8, 10, 20];
+export const DEFAULT_FILM_PACK_SIZE = 10;
+
+export const EXPOSURE_BLEND_MODES: ExposureBlend['mode'][] = ['screen', 'lighten', 'multiply'];
+export const DEFAULT_EXPOSURE_BLEND: ExposureBlend = { mode: 'screen', opacity: 0.7 };
+
+// Ideal sizes requested from getUserMedia; the browser picks the closest it can do.
+export const CAPTURE_RESOLUTIONS: CaptureResolution[] = [
+  { id: '480p', label: '480p', width: 640, height: 480 },
+  { id: '720p', label: '720p', width: 1280, height: 720 },
+  { id: '1080p', label: '1080p', width: 1920, height: 1080 },
+  { id: '4k', label: '4K', width: 3840, height: 2160 },
+];
+export const DEFAULT_RESOLUTION_ID = '720p';
+
+// ---------------------------------------
+// SHARED STAGES
+// ---------------------------------------
+const STANDARD_FILTER: FilmStage = {
+  flash: { kind: 'filter', filter: 'contrast(1.4) brightness(1.3) saturate(1.1) sepia(0.05)' },
+  noFlash: {
+    kind: 'filter',
+    filter: 'contrast(0.9) brightness(1.1) saturate(0.85) sepia(0.15) hue-rotate(-5deg)',
+  },
+};
+
+// Ambient light halation; the flash washes it out.
+const AMBIENT_BLOOM = noFlashOnly({ kind: 'bloom', blend: 'screen', blur: 14, opacity: 0.35 });
+
+const standardStock = (
+  id: string,
+  name: string,
+  color: string,
+  vignetteColor: string,
+  overlay: string | null
+): FilmStock => ({
+  id,
+  name,
+  color,
+  stages: [
+    STANDARD_FILTER,
+    ...(overlay ? [both({ kind: 'fill', blend: 'overlay', color: overlay })] : []),
+    AMBIENT_BLOOM,
+    vignette(vignetteColor),
+    grain(22),
+  ],
+});
+
+// ---------------------------------------
+// ULTRA-ICE TINT PRESETS
+// ---------------------------------------
+export const TINT_OPTIONS: FilmStock[] = [
+  standardStock('neutral', 'Standard', 'bg-zinc-500', 'rgba(15,15,15,0.75)', null),
+  {
+    id: 'blue',
+    name: 'Midnight Ice',
+    color: 'bg-blue-600',
+    developTime: 8000, // Cold chemistry takes its time
+    stages: [
+      {
+        flash: {
+          kind: 'filter',
+          filter: 'hue-rotate(-36deg) saturate(0.32) brightness(1.48) contrast(1.58)',
+        },
+        noFlash: {
+          kind: 'filter',
+          filter: 'hue-rotate(-20deg) saturate(0.50) brightness(1.22) contrast(1.12)',
+        },
+      },
+      flashOnly({ kind: 'fill', blend: 'multiply', color: 'rgba(0, 0, 25, 0.25)' }),
+      both({ kind: 'fill', blend: 'screen', color: 'rgba(220, 245, 255, 0.25)' }),
+      both({ kind: 'fill', blend: 'screen', color: 'rgba(180, 240, 255, 0.12)' }),
+      AMBIENT_BLOOM,
+      vignette('rgba(10, 20, 55, 0.92)'),
+      both({ kind: 'fill', blend: 'multiply', color: 'rgba(45, 70, 140, 0.18)' }),
+      grain(14),
+    ],
+  },
+  standardStock('red', 'Velvet', 'bg-red-700', 'rgba(70, 5, 20, 0.85)', 'rgba(255, 40, 0, 0.08)'),
+  standardStock('emerald', 'Forest', 'bg-emerald-700', 'rgba(5, 50, 30, 0.85)', 'rgba(0, 255, 100, 0.06)'),
+  standardStock('amber', 'Sepia', 'bg-amber-500', 'rgba(60, 40, 10, 0.85)', 'rgba(255, 180, 0, 0.1)'),
+];
@@ -0,0 +1,23 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+const CLEAR_DELAY = 100; // ms the region stays empty between messages
+
+/**
+ * Messages for screen readers, to show in a polite live region. The region
+ * is emptied before each message so saying the same thing twice is still
+ * read out.
+ */
+export const useAnnouncer = () => {
+  const [message, setMessage] = useState('');
+  const timerRef = useRef<number | undefined>(undefined);
+
+  const announce = useCallback((text: string) => {
+    setMessage('');
+    window.clearTimeout(timerRef.current);
+    timerRef.current = window.setTimeout(() => setMessage(text), CLEAR_DELAY);
+  }, []);
+
+  useEffect(() => () => window.clearTimeout(timerRef.current), []);
+
+  return { message, announce };
+};
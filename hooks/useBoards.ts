@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+import { Board } from '../types';
+import { loadActiveBoardId, loadBoards, saveActiveBoardId, saveBoards } from '../utils/boards';
+
+/**
+ * The list of boards and which one is on the wall, both remembered across
+ * reloads. What's on each board is for the wall's persistence to keep.
+ */
+export const useBoards = () => {
+  const [boards, setBoards] = useState<Board[]>(loadBoards);
+  const [activeId, setActiveId] = useState(() => loadActiveBoardId(loadBoards()));
+  const active = boards.find((b) => b.id === activeId) ?? boards[0];
+
+  useEffect(() => saveBoards(boards), [boards]);
+  useEffect(() => saveActiveBoardId(active.id), [active.id]);
+
+  const add = (board: Board) => setBoards((prev) => [...prev, board]);
+
+  const update = (id: string, patch: Partial<Pick<Board, 'name' | 'backgroundId'>>) =>
+    setBoards((prev) => prev.map((b) => (b.id === id ? { ...b, ...patch } : b)));
+
+  // The last board can't go; there's always a wall to print onto.
+  const remove = (id: string) => setBoards((prev) => (prev.length > 1 ? prev.filter((b) => b.id !== id) : prev));
+
+  return { boards, active, setActiveId, add, update, remove };
+};
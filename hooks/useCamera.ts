@@ -0,0 +1,140 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CameraFacing, CaptureResolution } from '../types';
+
+export interface CameraRequest {
+  deviceId: string | null; // null = let facingMode pick
+  facingMode: CameraFacing;
+  resolution: CaptureResolution;
+}
+
+export type CameraError = 'denied' | 'unavailable';
+
+const listVideoInputs = async () => {
+  try {
+    const all = await navigator.mediaDevices.enumerateDevices();
+    return all.filter((d) => d.kind === 'videoinput');
+  } catch {
+    return [];
+  }
+};
+
+const buildConstraints = (request: CameraRequest, withDevice: boolean): MediaStreamConstraints => ({
+  video: {
+    ...(withDevice && request.deviceId
+      ? { deviceId: { exact: request.deviceId } }
+      : { facingMode: request.facingMode }),
+    width: { ideal: request.resolution.width },
+    height: { ideal: request.resolution.height },
+  },
+  audio: false,
+});
+
+/**
+ * Owns the getUserMedia stream for `videoRef`. Restarts when the request
+ * changes, when the track ends (camera unplugged, OS revoked it) and when a
+ * `devicechange` leaves us without a live track.
+ */
+export const useCamera = (
+  videoRef: React.RefObject<HTMLVideoElement | null>,
+  request: CameraRequest,
+  enabled = true
+) => {
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [error, setError] = useState<CameraError | null>(null);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [facing, setFacing] = useState<CameraFacing | null>(null);
+  const [restartToken, setRestartToken] = useState(0);
+  const streamRef = useRef<MediaStream | null>(null);
+
+  const { deviceId, facingMode, resolution } = request;
+
+  useEffect(() => {
+    if (!enabled) {
+      setStream(null);
+      setError(null);
+      streamRef.current = null;
+      return;
+    }
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError('unavailable');
+      return;
+    }
+
+    let cancelled = false;
+    // The stream this run opened. Cleanup must stop exactly this one, not
+    // whatever `stream` happened to be in scope when the effect was created.
+    let opened: MediaStream | null = null;
+
+    const start = async () => {
+      const req = { deviceId, facingMode, resolution };
+      let media: MediaStream;
+      try {
+        try {
+          media = await navigator.mediaDevices.getUserMedia(buildConstraints(req, true));
+        } catch (err) {
+          // A remembered device may be gone; fall back to any camera facing the right way.
+          const name = (err as DOMException).name;
+          if (!deviceId || (name !== 'OverconstrainedError' && name !== 'NotFoundError')) throw err;
+          media = await navigator.mediaDevices.getUserMedia(buildConstraints(req, false));
+        }
+      } catch (err) {
+        if (cancelled) return;
+        const name = (err as DOMException).name;
+        setError(name === 'NotAllowedError' || name === 'SecurityError' ? 'denied' : 'unavailable');
+        setStream(null);
+        streamRef.current = null;
+        return;
+      }
+
+      if (cancelled) {
+        media.getTracks().forEach((t) => t.stop());
+        return;
+      }
+
+      opened = media;
+      streamRef.current = media;
+      const track = media.getVideoTracks()[0];
+      track?.addEventListener('ended', () => {
+        if (cancelled) return;
+        setStream(null);
+        streamRef.current = null;
+        setRestartToken((n) => n + 1);
+      });
+
+      setFacing((track?.getSettings().facingMode as CameraFacing | undefined) ?? null);
+      setStream(media);
+      setError(null);
+      if (videoRef.current) videoRef.current.srcObject = media;
+      // Labels are only exposed once permission has been granted.
+      setDevices(await listVideoInputs());
+    };
+
+    start();
+    return () => {
+      cancelled = true;
+      opened?.getTracks().forEach((t) => t.stop());
+    };
+  }, [enabled, deviceId, facingMode, resolution.width, resolution.height, restartToken, videoRef]);
+
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices?.addEventListener) return;
+
+    const handleDeviceChange = async () => {
+      setDevices(await listVideoInputs());
+      if (!enabled) return;
+      const track = streamRef.current?.getVideoTracks()[0];
+      if (!track || track.readyState === 'ended') setRestartToken((n) => n + 1);
+    };
+
+    mediaDevices.addEventListener('devicechange', handleDeviceChange);
+    return () => mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+  }, [enabled]);
+
+  const activeDeviceId = stream?.getVideoTracks()[0]?.getSettings().deviceId ?? null;
+  // Desktop webcams rarely report facingMode; treat unknown as front-facing
+  // unless the user explicitly asked for the rear camera.
+  const isFrontFacing = (facing ?? (deviceId ? 'user' : facingMode)) === 'user';
+
+  return { stream, error, devices, activeDeviceId, isFrontFacing };
+};
@@ -0,0 +1,66 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { DEVELOP_TICK, SHAKE_DURATION, SHAKE_SPEEDUP } from '../constants';
+import { WallItem } from '../types';
+import { isPhoto } from '../utils/decorations';
+import { advanceDevelopment } from '../utils/development';
+
+/**
+ * Runs the chemistry for every developing photo. One shared ticker advances
+ * progress while anything is developing and stops once everything is done.
+ */
+export const useDevelopment = (
+  items: WallItem[],
+  setItems: React.Dispatch<React.SetStateAction<WallItem[]>>
+) => {
+  // Photo id -> time its last shake wears off.
+  const shakesRef = useRef(new Map<string, number>());
+  // Mirrors the shakes for the wobble animation.
+  const [shakingIds, setShakingIds] = useState<string[]>([]);
+  const isActive = items.some((p) => isPhoto(p) && p.isDeveloping && !p.developPaused);
+
+  useEffect(() => {
+    if (!isActive) return;
+    let last = performance.now();
+    const timer = window.setInterval(() => {
+      const now = performance.now();
+      const elapsed = now - last;
+      last = now;
+      const shakes = shakesRef.current;
+      setItems((prev) => {
+        let advanced = false;
+        const next = prev.map((p) => {
+          if (!isPhoto(p)) return p;
+          const shakenUntil = shakes.get(p.id) ?? 0;
+          if (shakenUntil <= now) shakes.delete(p.id);
+          const developed = advanceDevelopment(p, elapsed, shakenUntil > now ? SHAKE_SPEEDUP : 1);
+          advanced ||= developed !== p;
+          return developed;
+        });
+        // Everything developing may be paused; then the wall stays as it is.
+        return advanced ? next : prev;
+      });
+    }, DEVELOP_TICK);
+    return () => window.clearInterval(timer);
+  }, [isActive, setItems]);
+
+  const shake = useCallback((id: string) => {
+    shakesRef.current.set(id, performance.now() + SHAKE_DURATION);
+    setShakingIds((prev) => (prev.includes(id) ? prev : [...prev, id]));
+    window.setTimeout(() => {
+      // A later shake of the same photo keeps it wobbling.
+      if ((shakesRef.current.get(id) ?? 0) > performance.now()) return;
+      setShakingIds((prev) => prev.filter((shaking) => shaking !== id));
+    }, SHAKE_DURATION);
+  }, []);
+
+  const setPaused = useCallback(
+    (id: string, paused: boolean) => {
+      setItems((prev) =>
+        prev.map((p) => (p.id === id && isPhoto(p) && p.isDeveloping ? { ...p, developPaused: paused } : p))
+      );
+    },
+    [setItems]
+  );
+
+  return { shake, setPaused, shakingIds };
+};
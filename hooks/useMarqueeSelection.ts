@@ -0,0 +1,65 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { WallItem } from '../types';
+import { Point, Rect, itemBounds, rectFromPoints, rectsIntersect } from '../utils/selection';
+
+interface ActiveMarquee {
+  start: Point;
+  current: Point;
+  baseIds: string[]; // Kept selected underneath, for shift/ctrl marquees
+}
+
+/**
+ * Rubber-band selection on empty wall space, tracked in world coordinates.
+ * A plain press clears the selection first; with shift/ctrl/cmd held the
+ * band adds to it.
+ */
+export const useMarqueeSelection = (
+  toWorld: (clientX: number, clientY: number) => Point,
+  items: WallItem[],
+  selectedIds: string[],
+  setSelectedIds: (ids: string[]) => void
+) => {
+  const [active, setActive] = useState<ActiveMarquee | null>(null);
+
+  const begin = useCallback(
+    (e: React.PointerEvent) => {
+      const additive = e.shiftKey || e.ctrlKey || e.metaKey;
+      const baseIds = additive ? selectedIds : [];
+      const start = toWorld(e.clientX, e.clientY);
+      setSelectedIds(baseIds);
+      setActive({ start, current: start, baseIds });
+    },
+    [toWorld, selectedIds, setSelectedIds]
+  );
+
+  const start = active?.start;
+  const baseIds = active?.baseIds;
+
+  useEffect(() => {
+    if (!start || !baseIds) return;
+
+    const handlePointerMove = (e: PointerEvent) => {
+      const current = toWorld(e.clientX, e.clientY);
+      const band = rectFromPoints(start, current);
+      const hits = items.filter((p) => !baseIds.includes(p.id) && rectsIntersect(band, itemBounds(p)));
+      setSelectedIds([...baseIds, ...hits.map((p) => p.id)]);
+      setActive((prev) => prev && { ...prev, current });
+    };
+
+    const handlePointerUp = () => setActive(null);
+
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('pointercancel', handlePointerUp);
+
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handlePointerUp);
+    };
+    // Keyed on the band's start rather than `active`, so moving it doesn't re-subscribe.
+  }, [start, baseIds, toWorld, items, setSelectedIds]);
+
+  const rect: Rect | null = active ? rectFromPoints(active.start, active.current) : null;
+  return { rect, begin };
+};
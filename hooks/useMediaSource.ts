@@ -0,0 +1,202 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { MediaFrame, MediaSourceSelection } from '../types';
+import { CameraRequest, useCamera } from './useCamera';
+
+export type MediaSourceError = 'denied' | 'unavailable' | 'unsupported-file';
+
+// Mobile browsers have mediaDevices but no screen capture.
+export const canCaptureScreen = () => typeof navigator.mediaDevices?.getDisplayMedia === 'function';
+
+const TEST_PATTERN_WIDTH = 1280;
+const TEST_PATTERN_HEIGHT = 720;
+const TEST_BARS = ['#c0c0c0', '#c0c000', '#00c0c0', '#00c000', '#c000c0', '#c00000', '#0000c0'];
+
+// SMPTE-ish bars with a moving marker and clock, so prints from it are
+// recognisably distinct and it's obvious the feed is live.
+const drawTestPattern = (ctx: CanvasRenderingContext2D, time: number) => {
+  const w = TEST_PATTERN_WIDTH;
+  const h = TEST_PATTERN_HEIGHT;
+  const barWidth = w / TEST_BARS.length;
+  TEST_BARS.forEach((color, i) => {
+    ctx.fillStyle = color;
+    ctx.fillRect(i * barWidth, 0, barWidth + 1, h * 0.7);
+  });
+
+  const ramp = ctx.createLinearGradient(0, 0, w, 0);
+  ramp.addColorStop(0, '#000');
+  ramp.addColorStop(1, '#fff');
+  ctx.fillStyle = ramp;
+  ctx.fillRect(0, h * 0.7, w, h * 0.3);
+
+  const t = time / 1000;
+  ctx.fillStyle = '#ffffff';
+  ctx.beginPath();
+  ctx.arc(w / 2 + Math.cos(t) * h * 0.25, h * 0.35 + Math.sin(t) * h * 0.2, h * 0.06, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.fillStyle = 'rgba(0,0,0,0.6)';
+  ctx.fillRect(w / 2 - 170, h * 0.7 - 50, 340, 70);
+  ctx.fillStyle = '#ffffff';
+  ctx.font = 'bold 44px monospace';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(new Date().toLocaleTimeString(), w / 2, h * 0.7 - 15);
+};
+
+const detachVideo = (video: HTMLVideoElement | null) => {
+  if (!video) return;
+  video.srcObject = null;
+  video.removeAttribute('src');
+  video.load();
+};
+
+/**
+ * Resolves the camera's current source into frames. The webcam is just one
+ * option; files, screen capture and a synthetic pattern all come out as the
+ * same MediaFrame so the film pipeline never needs to know which it was.
+ */
+export const useMediaSource = (
+  videoRef: React.RefObject<HTMLVideoElement | null>,
+  selection: MediaSourceSelection,
+  cameraRequest: CameraRequest,
+  onSourceEnded: () => void
+) => {
+  const isCamera = selection.kind === 'camera';
+  const camera = useCamera(videoRef, cameraRequest, isCamera);
+
+  const [isReady, setIsReady] = useState(false);
+  const [error, setError] = useState<MediaSourceError | null>(null);
+  const stillRef = useRef<HTMLImageElement | HTMLCanvasElement | null>(null);
+  const onSourceEndedRef = useRef(onSourceEnded);
+  onSourceEndedRef.current = onSourceEnded;
+
+  useEffect(() => {
+    if (selection.kind === 'camera') return;
+
+    const video = videoRef.current;
+    let cancelled = false;
+    let cleanup = () => {};
+    setIsReady(false);
+    setError(null);
+    stillRef.current = null;
+
+    switch (selection.kind) {
+      case 'video-file': {
+        if (!video) break;
+        const url = URL.createObjectURL(selection.file);
+        detachVideo(video);
+        video.src = url;
+        video.loop = true;
+        const handleLoaded = () => !cancelled && setIsReady(true);
+        const handleError = () => !cancelled && setError('unsupported-file');
+        video.addEventListener('loadeddata', handleLoaded);
+        video.addEventListener('error', handleError);
+        video.play().catch(() => {});
+        cleanup = () => {
+          video.removeEventListener('loadeddata', handleLoaded);
+          video.removeEventListener('error', handleError);
+          detachVideo(video);
+          URL.revokeObjectURL(url);
+        };
+        break;
+      }
+
+      case 'image': {
+        const url = URL.createObjectURL(selection.file);
+        const img = new Image();
+        img.onload = () => {
+          if (cancelled) return;
+          stillRef.current = img;
+          setIsReady(true);
+        };
+        img.onerror = () => !cancelled && setError('unsupported-file');
+        img.src = url;
+        cleanup = () => URL.revokeObjectURL(url);
+        break;
+      }
+
+      case 'screen': {
+        if (!canCaptureScreen()) {
+          setError('unavailable');
+          break;
+        }
+        let stream: MediaStream | null = null;
+        navigator.mediaDevices
+          .getDisplayMedia({ video: true, audio: false })
+          .then((media) => {
+            if (cancelled) {
+              media.getTracks().forEach((t) => t.stop());
+              return;
+            }
+            stream = media;
+            // The browser's own "Stop sharing" button ends the track.
+            media.getVideoTracks()[0]?.addEventListener('ended', () => {
+              if (!cancelled) onSourceEndedRef.current();
+            });
+            if (video) {
+              detachVideo(video);
+              video.srcObject = media;
+            }
+            setIsReady(true);
+          })
+          .catch((err: DOMException) => {
+            if (cancelled) return;
+            setError(err.name === 'NotAllowedError' ? 'denied' : 'unavailable');
+          });
+        cleanup = () => {
+          stream?.getTracks().forEach((t) => t.stop());
+          detachVideo(video);
+        };
+        break;
+      }
+
+      case 'test-pattern': {
+        const canvas = document.createElement('canvas');
+        canvas.width = TEST_PATTERN_WIDTH;
+        canvas.height = TEST_PATTERN_HEIGHT;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+          setError('unavailable');
+          break;
+        }
+        let raf = 0;
+        const tick = (time: number) => {
+          drawTestPattern(ctx, time);
+          raf = requestAnimationFrame(tick);
+        };
+        drawTestPattern(ctx, performance.now());
+        raf = requestAnimationFrame(tick);
+        stillRef.current = canvas;
+        setIsReady(true);
+        cleanup = () => cancelAnimationFrame(raf);
+        break;
+      }
+    }
+
+    return () => {
+      cancelled = true;
+      cleanup();
+    };
+  }, [selection, videoRef]);
+
+  const getFrame = useCallback((): MediaFrame | null => {
+    if (selection.kind === 'image' || selection.kind === 'test-pattern') {
+      const still = stillRef.current;
+      if (!still) return null;
+      return still instanceof HTMLImageElement
+        ? { source: still, width: still.naturalWidth, height: still.naturalHeight }
+        : { source: still, width: still.width, height: still.height };
+    }
+    const video = videoRef.current;
+    if (!video || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || !video.videoWidth) return null;
+    return { source: video, width: video.videoWidth, height: video.videoHeight };
+  }, [selection, videoRef]);
+
+  return {
+    getFrame,
+    isReady: isCamera ? !!camera.stream : isReady,
+    error: isCamera ? camera.error : error,
+    usesVideoElement: selection.kind !== 'image' && selection.kind !== 'test-pattern',
+    camera,
+  };
+};
@@ -0,0 +1,59 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Point } from '../utils/selection';
+
+const MIN_STEP = 2; // Client px between recorded points
+
+/**
+ * Freehand drawing with the pen tool. Points are recorded in world
+ * coordinates while the pointer is down and handed over when it lifts.
+ */
+export const usePenStroke = (
+  toWorld: (clientX: number, clientY: number) => Point,
+  onStroke: (points: Point[]) => void
+) => {
+  const [points, setPoints] = useState<Point[] | null>(null);
+  // The same points, readable from the pointerup handler without an updater.
+  const pointsRef = useRef<Point[]>([]);
+  const lastClientRef = useRef<Point>({ x: 0, y: 0 });
+
+  const begin = useCallback(
+    (e: React.PointerEvent) => {
+      const start = [toWorld(e.clientX, e.clientY)];
+      pointsRef.current = start;
+      lastClientRef.current = { x: e.clientX, y: e.clientY };
+      setPoints(start);
+    },
+    [toWorld]
+  );
+
+  const isDrawing = points !== null;
+
+  useEffect(() => {
+    if (!isDrawing) return;
+
+    const handlePointerMove = (e: PointerEvent) => {
+      const last = lastClientRef.current;
+      if (Math.hypot(e.clientX - last.x, e.clientY - last.y) < MIN_STEP) return;
+      lastClientRef.current = { x: e.clientX, y: e.clientY };
+      pointsRef.current = [...pointsRef.current, toWorld(e.clientX, e.clientY)];
+      setPoints(pointsRef.current);
+    };
+
+    const handlePointerUp = () => {
+      setPoints(null);
+      onStroke(pointsRef.current);
+    };
+
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('pointercancel', handlePointerUp);
+
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handlePointerUp);
+    };
+  }, [isDrawing, toWorld, onStroke]);
+
+  return { points, begin };
+};
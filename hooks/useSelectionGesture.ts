@@ -0,0 +1,190 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { PINCH_WHEEL_PAUSE, TAP_SLOP } from '../constants';
+import { WallItem } from '../types';
+import {
+  ItemPose,
+  ItemTransform,
+  Point,
+  clampGroupFactor,
+  itemBounds,
+  itemPose,
+  rectCenter,
+  transformGroup,
+  unionBounds,
+} from '../utils/selection';
+
+export type SelectionGestureMode = 'move' | 'rotate' | 'scale' | 'pinch';
+
+interface ActiveGesture {
+  mode: SelectionGestureMode;
+  start: Point;
+  pivot: Point; // Centre of the group when the gesture began, or of the fingers for a pinch
+  poses: ItemPose[];
+  fingers?: [Point, Point]; // Where a pinch's two pointers were when it began
+}
+
+const angleOf = (p: Point, pivot: Point) => (Math.atan2(p.y - pivot.y, p.x - pivot.x) * 180) / Math.PI;
+
+const midpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+/**
+ * Drags, rotates and scales the selected items together. Every update is
+ * computed from where the items were when the gesture began, so rounding
+ * never accumulates over a long drag. All the maths happens in world
+ * coordinates, which keeps it right at any zoom.
+ *
+ * A second finger on a drag turns it into a pinch that scales and rotates
+ * around the fingers' midpoint; lifting either finger goes back to dragging
+ * with the other.
+ */
+export const useSelectionGesture = (
+  toWorld: (clientX: number, clientY: number) => Point,
+  onTransform: (mode: SelectionGestureMode, updates: Map<string, ItemTransform>) => void,
+  onEnd: (mode: SelectionGestureMode, ids: string[], pointer: Point, moved: boolean) => void
+) => {
+  const [active, setActive] = useState<ActiveGesture | null>(null);
+  // Where the pointer last was, and whether it has really moved since the press.
+  const pointerRef = useRef({ at: { x: 0, y: 0 }, pressedAt: { x: 0, y: 0 }, moved: false });
+  // Client positions of the pointers taking part, by pointer id.
+  const pointersRef = useRef(new Map<number, Point>());
+  // The last update sent, so a change of mode can pick up where the items are.
+  const latestRef = useRef(new Map<string, ItemTransform>());
+  const wheelTimerRef = useRef<number | undefined>(undefined);
+
+  useEffect(() => () => window.clearTimeout(wheelTimerRef.current), []);
+
+  const begin = useCallback((mode: SelectionGestureMode, e: React.PointerEvent, items: WallItem[]) => {
+    const bounds = unionBounds(items.map(itemBounds));
+    if (!bounds) return;
+    const start = toWorld(e.clientX, e.clientY);
+    pointerRef.current = { at: start, pressedAt: { x: e.clientX, y: e.clientY }, moved: false };
+    pointersRef.current = new Map([[e.pointerId, { x: e.clientX, y: e.clientY }]]);
+    latestRef.current = new Map();
+    setActive({
+      mode,
+      start,
+      pivot: rectCenter(bounds),
+      poses: items.map(itemPose),
+    });
+  }, [toWorld]);
+
+  // Where the items are now, as poses a new stage of the gesture can start from.
+  const currentPoses = (poses: ItemPose[]) =>
+    poses.map((pose) => {
+      const latest = latestRef.current.get(pose.id);
+      if (!latest) return pose;
+      return {
+        ...pose,
+        center: { x: latest.x + pose.width / 2, y: latest.y + pose.height / 2 },
+        rotation: latest.rotation,
+        scale: latest.scale,
+      };
+    });
+
+  /**
+   * Offers a press to the gesture in progress. A second finger joins a drag
+   * as a pinch; any other press while a gesture runs is swallowed, so it
+   * can't start a second one. Returns whether the press was taken.
+   */
+  const join = (e: React.PointerEvent) => {
+    if (!active) return false;
+    const pointers = pointersRef.current;
+    if ((active.mode !== 'move' && active.mode !== 'pinch') || pointers.size !== 1) return true;
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const [a, b] = [...pointers.values()].map((p) => toWorld(p.x, p.y));
+    pointerRef.current.moved = true; // A pinch is never a tap
+    setActive({ mode: 'pinch', start: a, pivot: midpoint(a, b), poses: currentPoses(active.poses), fingers: [a, b] });
+    return true;
+  };
+
+  /**
+   * Scales `items` around a client point for a trackpad pinch, which the
+   * browser reports as ctrl+wheel. A pause in the events ends the gesture.
+   */
+  const pinchBy = (items: WallItem[], factor: number, client: Point) => {
+    if (active || items.length === 0) return;
+    const pivot = toWorld(client.x, client.y);
+    const poses = items.map(itemPose);
+    onTransform('scale', transformGroup(poses, pivot, { factor: clampGroupFactor(poses, factor) }));
+    window.clearTimeout(wheelTimerRef.current);
+    wheelTimerRef.current = window.setTimeout(
+      () => onEnd('scale', poses.map((pose) => pose.id), pivot, true),
+      PINCH_WHEEL_PAUSE
+    );
+  };
+
+  useEffect(() => {
+    if (!active) return;
+    const { mode, start, pivot, poses, fingers } = active;
+    const pointers = pointersRef.current;
+
+    const update = (updates: Map<string, ItemTransform>) => {
+      latestRef.current = updates;
+      onTransform(mode, updates);
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      if (!pointers.has(e.pointerId)) return;
+      e.preventDefault();
+      pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      const pointer = toWorld(e.clientX, e.clientY);
+      const { pressedAt, moved } = pointerRef.current;
+      pointerRef.current = {
+        at: pointer,
+        pressedAt,
+        moved: moved || Math.hypot(e.clientX - pressedAt.x, e.clientY - pressedAt.y) > TAP_SLOP,
+      };
+      if (fingers) {
+        const [a, b] = [...pointers.values()].map((p) => toWorld(p.x, p.y));
+        const center = midpoint(a, b);
+        const spread = Math.hypot(fingers[1].x - fingers[0].x, fingers[1].y - fingers[0].y);
+        if (spread === 0) return;
+        const factor = Math.hypot(b.x - a.x, b.y - a.y) / spread;
+        const angle = angleOf(b, a) - angleOf(fingers[1], fingers[0]);
+        update(transformGroup(poses, pivot, {
+          dx: center.x - pivot.x,
+          dy: center.y - pivot.y,
+          angle,
+          factor: clampGroupFactor(poses, factor),
+        }));
+      } else if (mode === 'move') {
+        update(transformGroup(poses, pivot, { dx: pointer.x - start.x, dy: pointer.y - start.y }));
+      } else if (mode === 'rotate') {
+        const angle = angleOf(pointer, pivot) - angleOf(start, pivot);
+        update(transformGroup(poses, pivot, { angle }));
+      } else {
+        const startDistance = Math.hypot(start.x - pivot.x, start.y - pivot.y);
+        if (startDistance === 0) return;
+        const factor = Math.hypot(pointer.x - pivot.x, pointer.y - pivot.y) / startDistance;
+        update(transformGroup(poses, pivot, { factor: clampGroupFactor(poses, factor) }));
+      }
+    };
+
+    const handlePointerUp = (e: PointerEvent) => {
+      if (!pointers.delete(e.pointerId)) return;
+      if (pointers.size > 0) {
+        // One finger of a pinch lifted: keep dragging with the other.
+        const [rest] = [...pointers.values()];
+        const at = toWorld(rest.x, rest.y);
+        pointerRef.current.at = at;
+        setActive({ mode: 'move', start: at, pivot, poses: currentPoses(poses) });
+        return;
+      }
+      setActive(null);
+      const { at, moved } = pointerRef.current;
+      onEnd(mode, poses.map((pose) => pose.id), at, moved);
+    };
+
+    window.addEventListener('pointermove', handlePointerMove, { passive: false });
+    window.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('pointercancel', handlePointerUp);
+
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handlePointerUp);
+    };
+  }, [active, toWorld, onTransform, onEnd]);
+
+  return { mode: active?.mode ?? null, begin, join, pinchBy };
+};
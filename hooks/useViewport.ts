@@ -0,0 +1,175 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { TAP_SLOP, WALL_SAVE_DEBOUNCE } from '../constants';
+import { WallViewport } from '../types';
+import { Point, Rect } from '../utils/selection';
+import {
+  DEFAULT_VIEWPORT,
+  centerOn,
+  fitViewport,
+  loadViewport,
+  saveViewport,
+  toWorld,
+  zoomAround,
+} from '../utils/viewport';
+
+const midpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+/**
+ * Pan and zoom for the wall. One pointer on empty space pans, two pinch;
+ * the wheel zooms around the cursor. Each board's view is remembered across
+ * reloads. A trackpad pinch (ctrl+wheel) over an item goes to `onItemPinch`
+ * instead, when given.
+ */
+export const useViewport = (
+  containerRef: React.RefObject<HTMLDivElement | null>,
+  boardId: string,
+  onItemPinch?: (id: string, factor: number, client: Point) => void
+) => {
+  const [viewport, setViewport] = useState<WallViewport>(() => loadViewport(boardId));
+  // The board `viewport` belongs to; it catches up with `boardId` on a switch.
+  const [viewBoardId, setViewBoardId] = useState(boardId);
+  const [size, setSize] = useState({ width: window.innerWidth, height: window.innerHeight });
+  const [isPanning, setIsPanning] = useState(false);
+  // Client positions of the pointers currently panning, by pointer id.
+  const pointersRef = useRef(new Map<number, Point>());
+  const tapRef = useRef<{ start: Point; moved: boolean; onTap?: () => void } | null>(null);
+  // The latest callback, so the native wheel listener needn't be swapped every render.
+  const onItemPinchRef = useRef(onItemPinch);
+
+  useEffect(() => {
+    onItemPinchRef.current = onItemPinch;
+  });
+
+  if (viewBoardId !== boardId) {
+    setViewBoardId(boardId);
+    setViewport(loadViewport(boardId));
+  }
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => saveViewport(viewBoardId, viewport), WALL_SAVE_DEBOUNCE);
+    return () => window.clearTimeout(timer);
+  }, [viewBoardId, viewport]);
+
+  useEffect(() => {
+    const handleResize = () => setSize({ width: window.innerWidth, height: window.innerHeight });
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  // React's wheel listeners are passive, so the page's own ctrl+wheel zoom
+  // can only be stopped from a native one.
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const delta = e.deltaMode === 1 ? e.deltaY * 16 : e.deltaY;
+      // Trackpad pinches arrive as ctrl+wheel with small deltas; give them more pull.
+      const factor = Math.exp(-delta * (e.ctrlKey ? 0.01 : 0.002));
+      const item = e.ctrlKey && e.target instanceof Element ? e.target.closest<HTMLElement>('[data-item-id]') : null;
+      if (item?.dataset.itemId && onItemPinchRef.current) {
+        onItemPinchRef.current(item.dataset.itemId, factor, { x: e.clientX, y: e.clientY });
+        return;
+      }
+      setViewport((v) => zoomAround(v, factor, { x: e.clientX, y: e.clientY }));
+    };
+    el.addEventListener('wheel', handleWheel, { passive: false });
+    return () => el.removeEventListener('wheel', handleWheel);
+  }, [containerRef]);
+
+  const clientToWorld = useCallback(
+    (clientX: number, clientY: number) => toWorld(viewport, { x: clientX, y: clientY }),
+    [viewport]
+  );
+
+  /** Zooms around `client`, or the middle of the screen. */
+  const zoomBy = useCallback(
+    (factor: number, client?: Point) =>
+      setViewport((v) => zoomAround(v, factor, client ?? { x: size.width / 2, y: size.height / 2 })),
+    [size]
+  );
+
+  /** Shows all of `rect`; with nothing to show, goes back to the starting view. */
+  const fitTo = useCallback(
+    (rect: Rect | null) => setViewport(rect ? fitViewport(rect, size.width, size.height) : DEFAULT_VIEWPORT),
+    [size]
+  );
+
+  const centerOnPoint = useCallback(
+    (world: Point) => setViewport((v) => centerOn(v, world, size.width, size.height)),
+    [size]
+  );
+
+  /** Starts panning with this pointer; a second one turns it into a pinch. */
+  const beginPan = useCallback((e: React.PointerEvent, onTap?: () => void) => {
+    // Middle-click would otherwise start the browser's autoscroll.
+    if (e.button === 1) e.preventDefault();
+    const pointers = pointersRef.current;
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (pointers.size === 1) {
+      tapRef.current = { start: { x: e.clientX, y: e.clientY }, moved: false, onTap };
+    } else if (tapRef.current) {
+      tapRef.current.moved = true; // A pinch is never a tap
+    }
+    setIsPanning(true);
+  }, []);
+
+  useEffect(() => {
+    if (!isPanning) return;
+    const pointers = pointersRef.current;
+
+    const handlePointerMove = (e: PointerEvent) => {
+      const prev = pointers.get(e.pointerId);
+      if (!prev) return;
+      e.preventDefault();
+      const next = { x: e.clientX, y: e.clientY };
+      const tap = tapRef.current;
+      if (tap && !tap.moved && Math.hypot(next.x - tap.start.x, next.y - tap.start.y) > TAP_SLOP) {
+        tap.moved = true;
+      }
+
+      const other = [...pointers.entries()].find(([id]) => id !== e.pointerId)?.[1];
+      pointers.set(e.pointerId, next);
+      if (!other) {
+        setViewport((v) => ({ ...v, x: v.x + next.x - prev.x, y: v.y + next.y - prev.y }));
+        return;
+      }
+
+      // Pinch: follow the midpoint and scale with the spread of the fingers.
+      const before = midpoint(prev, other);
+      const after = midpoint(next, other);
+      const spread = Math.hypot(prev.x - other.x, prev.y - other.y);
+      const factor = spread > 0 ? Math.hypot(next.x - other.x, next.y - other.y) / spread : 1;
+      setViewport((v) => zoomAround({ ...v, x: v.x + after.x - before.x, y: v.y + after.y - before.y }, factor, after));
+    };
+
+    const handlePointerUp = (e: PointerEvent) => {
+      if (!pointers.delete(e.pointerId) || pointers.size > 0) return;
+      setIsPanning(false);
+      const tap = tapRef.current;
+      tapRef.current = null;
+      if (tap && !tap.moved) tap.onTap?.();
+    };
+
+    window.addEventListener('pointermove', handlePointerMove, { passive: false });
+    window.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('pointercancel', handlePointerUp);
+
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handlePointerUp);
+    };
+  }, [isPanning]);
+
+  return {
+    viewport,
+    size,
+    isPanning,
+    toWorld: clientToWorld,
+    zoomBy,
+    fitTo,
+    centerOn: centerOnPoint,
+    beginPan,
+  };
+};
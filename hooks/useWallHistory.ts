@@ -0,0 +1,125 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { HISTORY_LIMIT } from '../constants';
+import { WallItem } from '../types';
+import { isTextInput, isWallKeyTarget } from '../utils/keyboard';
+import { WallChange, applyChanges, diffWall } from '../utils/wallHistory';
+
+interface HistoryEntry {
+  label: string;
+  changes: WallChange[];
+  source: WallItem[]; // The wall before this entry, for merging gesture steps
+  gesture?: string;
+}
+
+/**
+ * Undo/redo for wall edits. Edits report themselves through `track` before
+ * they're applied; updates sharing a `gesture` key merge into one entry
+ * until `endGesture`, so a whole drag undoes in one step.
+ */
+export const useWallHistory = (
+  setItems: React.Dispatch<React.SetStateAction<WallItem[]>>,
+  wallRef: React.RefObject<HTMLElement | null>
+) => {
+  const undoRef = useRef<HistoryEntry[]>([]);
+  const redoRef = useRef<HistoryEntry[]>([]);
+  const openGestureRef = useRef<string | null>(null);
+  const [undoLabel, setUndoLabel] = useState<string | null>(null);
+  const [redoLabel, setRedoLabel] = useState<string | null>(null);
+
+  // The stacks live in refs so a drag's steps don't each re-render; their
+  // tops are mirrored into state for the buttons whenever they change.
+  const syncLabels = useCallback(() => {
+    const undoTop = undoRef.current[undoRef.current.length - 1];
+    const redoTop = redoRef.current[redoRef.current.length - 1];
+    setUndoLabel(undoTop && undoTop.changes.length > 0 ? undoTop.label : null);
+    setRedoLabel(redoTop ? redoTop.label : null);
+  }, []);
+
+  const track = useCallback(
+    (label: string, prev: WallItem[], next: WallItem[], gesture?: string) => {
+      const stack = undoRef.current;
+      const top = stack[stack.length - 1];
+      if (top && gesture && top.gesture === gesture && openGestureRef.current === gesture) {
+        // A gesture is named after its last step: a press that raised a
+        // photo and then dragged it undoes as the move.
+        top.label = label;
+        top.changes = diffWall(top.source, next);
+      } else {
+        const changes = diffWall(prev, next);
+        if (changes.length === 0) return;
+        stack.push({ label, changes, source: prev, gesture });
+        if (stack.length > HISTORY_LIMIT) stack.shift();
+        redoRef.current = [];
+        openGestureRef.current = gesture ?? null;
+      }
+      syncLabels();
+    },
+    [syncLabels]
+  );
+
+  const endGesture = useCallback(() => {
+    openGestureRef.current = null;
+    const stack = undoRef.current;
+    // A drag that ended where it started isn't worth a step.
+    if (stack.length > 0 && stack[stack.length - 1].changes.length === 0) stack.pop();
+    syncLabels();
+  }, [syncLabels]);
+
+  const undo = useCallback(() => {
+    endGesture();
+    const entry = undoRef.current.pop();
+    if (!entry) return;
+    redoRef.current.push(entry);
+    syncLabels();
+    setItems((prev) => applyChanges(prev, entry.changes, 'before'));
+  }, [endGesture, syncLabels, setItems]);
+
+  const redo = useCallback(() => {
+    endGesture();
+    const entry = redoRef.current.pop();
+    if (!entry) return;
+    undoRef.current.push(entry);
+    syncLabels();
+    setItems((prev) => applyChanges(prev, entry.changes, 'after'));
+  }, [endGesture, syncLabels, setItems]);
+
+  const clear = useCallback(() => {
+    undoRef.current = [];
+    redoRef.current = [];
+    openGestureRef.current = null;
+    syncLabels();
+  }, [syncLabels]);
+
+  // Drops every step touching `ids`, for items that have left the wall for
+  // good; undoing one would bring them back.
+  const forget = useCallback(
+    (ids: Set<string>) => {
+      const keeps = (entry: HistoryEntry) => !entry.changes.some((change) => ids.has(change.id));
+      undoRef.current = undoRef.current.filter(keeps);
+      redoRef.current = redoRef.current.filter(keeps);
+      openGestureRef.current = null;
+      syncLabels();
+    },
+    [syncLabels]
+  );
+
+  // Like the wall's other shortcuts, only while the wall or an item has focus.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isTextInput(e.target) || !isWallKeyTarget(e.target, wallRef.current)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) redo();
+        else undo();
+      } else if (key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo, wallRef]);
+
+  return { track, endGesture, undo, redo, clear, forget, undoLabel, redoLabel };
+};
@@ -0,0 +1,213 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { STORAGE_WARNING_RATIO, WALL_SAVE_DEBOUNCE, WALL_SAVE_MAX_WAIT } from '../constants';
+import { PhotoData, WallItem } from '../types';
+import { isPhoto } from '../utils/decorations';
+import { Rect, itemBounds, rectsIntersect } from '../utils/selection';
+import {
+  StorageEstimate,
+  addToWall,
+  clearWall,
+  getStorageEstimate,
+  isQuotaError,
+  isStoredUrl,
+  loadWall,
+  requestPersistentStorage,
+  resolveImageUrl,
+  saveWall,
+} from '../utils/wallStore';
+
+export type WallStorageStatus = 'loading' | 'ready' | 'unavailable';
+
+// The develop ticker moves progress ten times a second; that alone isn't
+// worth a save, and a reload just picks up from the last one.
+const sameButProgress = (a: PhotoData, b: PhotoData) => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)] as (keyof PhotoData)[]);
+  return [...keys].every((key) => key === 'developProgress' || a[key] === b[key]);
+};
+
+const onlyProgressChanged = (prev: WallItem[], next: WallItem[]) =>
+  prev.length === next.length &&
+  next.every((item, i) => {
+    const before = prev[i];
+    return before === item || (isPhoto(before) && isPhoto(item) && sameButProgress(before, item));
+  });
+
+/**
+ * Keeps the wall's `items` in IndexedDB, as the saved wall of `boardId`.
+ * Loads that board's wall (again whenever the board changes), resolves
+ * stored images once their photos come into `visible`, and saves changes
+ * debounced.
+ */
+export const useWallPersistence = (
+  boardId: string,
+  items: WallItem[],
+  setItems: React.Dispatch<React.SetStateAction<WallItem[]>>,
+  visible: Rect
+) => {
+  const [status, setStatus] = useState<WallStorageStatus>('loading');
+  const [storage, setStorage] = useState<StorageEstimate | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const pendingRef = useRef<{ boardId: string; items: WallItem[] } | null>(null);
+  const firstPendingAtRef = useRef<number | null>(null);
+  const timerRef = useRef<number | undefined>(undefined);
+  const saveChainRef = useRef<Promise<void>>(Promise.resolve());
+  const resolvingRef = useRef(new Set<string>());
+  // The board whose wall was last loaded.
+  const shownBoardRef = useRef<string | null>(null);
+  // The items the save timer last saw, to tell real edits from develop ticks.
+  const lastSeenRef = useRef<WallItem[] | null>(null);
+  // The wall as it is now, for the load to tell the last board's items from
+  // ones made since the switch.
+  const itemsRef = useRef(items);
+  useEffect(() => {
+    itemsRef.current = items;
+  }, [items]);
+
+  const refreshEstimate = useCallback(async () => setStorage(await getStorageEstimate()), []);
+
+  const flush = useCallback(() => {
+    window.clearTimeout(timerRef.current);
+    const snapshot = pendingRef.current;
+    pendingRef.current = null;
+    firstPendingAtRef.current = null;
+    if (!snapshot) return;
+
+    saveChainRef.current = saveChainRef.current
+      .then(() => saveWall(snapshot.boardId, snapshot.items))
+      .then(() => {
+        setSaveError(null);
+        return refreshEstimate();
+      })
+      .catch((err) => {
+        console.error('Could not save the wall', err);
+        setSaveError(
+          isQuotaError(err)
+            ? 'Storage is full. New photos are not being saved; delete some or clear the wall.'
+            : 'Could not save the wall.'
+        );
+      });
+  }, [refreshEstimate]);
+
+  useEffect(() => {
+    let cancelled = false;
+    // The last board's unsaved changes are written before this one is read.
+    flush();
+    const leftBoard = shownBoardRef.current;
+    const left = itemsRef.current;
+    const leftIds = new Set(left.map((item) => item.id));
+    setStatus('loading');
+    saveChainRef.current
+      .then(() => loadWall(boardId))
+      .then((saved) => {
+        if (cancelled) return;
+        // Edits to the last board's items while this one loaded still
+        // belong to it.
+        const stayed = itemsRef.current.filter((item) => leftIds.has(item.id));
+        if (leftBoard && (stayed.length !== left.length || stayed.some((item, i) => item !== left[i]))) {
+          pendingRef.current = { boardId: leftBoard, items: stayed };
+          flush();
+        }
+        // The last board's items make way for this one's; anything printed
+        // since, or while the app was starting, goes on top.
+        shownBoardRef.current = boardId;
+        setItems((prev) => [...saved, ...prev.filter((item) => !leftIds.has(item.id))]);
+        setStatus('ready');
+        requestPersistentStorage();
+        refreshEstimate();
+      })
+      .catch((err) => {
+        // Without a readable store, saving could only overwrite what's there.
+        console.error('Could not load the wall', err);
+        if (!cancelled) setStatus('unavailable');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [boardId, setItems, refreshEstimate, flush]);
+
+  // Lazily swap `idb:` references for object URLs on photos in view; the
+  // rest stay on disk until panned or zoomed to.
+  const { left, top, right, bottom } = visible;
+  useEffect(() => {
+    const view = { left, top, right, bottom };
+    items.filter(isPhoto).forEach((photo) => {
+      const url = photo.url;
+      if (!isStoredUrl(url) || resolvingRef.current.has(url) || !rectsIntersect(itemBounds(photo), view)) return;
+      resolvingRef.current.add(url);
+      resolveImageUrl(url)
+        .then((resolved) =>
+          setItems((prev) => prev.map((p) => (isPhoto(p) && p.url === url ? { ...p, url: resolved } : p)))
+        )
+        .catch((err) => console.error('Could not load stored image', err))
+        .finally(() => resolvingRef.current.delete(url));
+    });
+  }, [items, setItems, left, top, right, bottom]);
+
+  useEffect(() => {
+    if (status !== 'ready') return;
+    const lastSeen = lastSeenRef.current;
+    lastSeenRef.current = items;
+    if (lastSeen && onlyProgressChanged(lastSeen, items)) return;
+    pendingRef.current = { boardId, items };
+    const now = Date.now();
+    firstPendingAtRef.current ??= now;
+    const overdue = now - firstPendingAtRef.current >= WALL_SAVE_MAX_WAIT;
+    window.clearTimeout(timerRef.current);
+    timerRef.current = window.setTimeout(flush, overdue ? 0 : WALL_SAVE_DEBOUNCE);
+  }, [items, status, flush]);
+
+  // Last chance to write before the tab goes away.
+  useEffect(() => {
+    const handleHide = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    document.addEventListener('visibilitychange', handleHide);
+    window.addEventListener('pagehide', flush);
+    return () => {
+      document.removeEventListener('visibilitychange', handleHide);
+      window.removeEventListener('pagehide', flush);
+      window.clearTimeout(timerRef.current);
+    };
+  }, [flush]);
+
+  const clear = useCallback(async () => {
+    window.clearTimeout(timerRef.current);
+    pendingRef.current = null;
+    firstPendingAtRef.current = null;
+    setItems([]);
+    // Let any in-flight save land first so it can't resurrect the wall.
+    saveChainRef.current = saveChainRef.current.then(() => clearWall(boardId)).then(refreshEstimate, (err) => {
+      console.error('Could not clear the wall', err);
+    });
+    await saveChainRef.current;
+    setSaveError(null);
+  }, [boardId, setItems, refreshEstimate]);
+
+  /**
+   * Saves `added` onto another board's wall, after any saves still queued.
+   * Resolves to whether it was stored.
+   */
+  const addToBoard = useCallback(
+    async (target: string, added: WallItem[]) => {
+      let stored = false;
+      saveChainRef.current = saveChainRef.current.then(() => addToWall(target, added)).then(
+        () => {
+          stored = true;
+          return refreshEstimate();
+        },
+        (err) => {
+          console.error('Could not save to the board', err);
+          setSaveError(isQuotaError(err) ? 'Storage is full.' : 'Could not save to the board.');
+        }
+      );
+      await saveChainRef.current;
+      return stored;
+    },
+    [refreshEstimate]
+  );
+
+  const isStorageLow = !!storage && storage.usage / storage.quota >= STORAGE_WARNING_RATIO;
+
+  return { status, storage, isStorageLow, saveError, clear, addToBoard };
+};
@@ -1,17 +1,281 @@
 
-export interface PhotoData {
-  id: string;
+// Everything needed to re-run the film pipeline on a raw frame.
+export interface FilmRecipe {
+  tintId: string;
+  flash: boolean;
+  seed: number;
+  mirror: boolean;
+}
+
+export interface FilmLook {
   url: string;
-  timestamp: number;
-  x: number;
+  recipe: FilmRecipe;
+}
+
+// What the camera hands to App for each shot.
+export interface CaptureResult extends FilmLook {
+  rawUrl: string; // Untouched crop, before any film stage or mirroring
+  formatId: string;
+}
+
+// What every item on the wall, photo or decoration, has in common.
+export interface WallItemBase {
+  id: string;
+  x: number; // World coordinates of the unrotated item's top-left corner
   y: number;
   rotation: number;
   scale: number;
+  z?: number; // Stacking order, higher on top; missing counts as 0
+}
+
+export interface PhotoData extends WallItemBase {
+  url: string;
+  timestamp: number;
   isDeveloping: boolean;
+  developProgress?: number; // 0..1, missing means fully developed
+  developPaused?: boolean;
+  developTime?: number; // ms, from the stock it was shot on
   borderColor?: string;
+  formatId?: string; // Defaults to the classic square format
+  rawUrl?: string;
+  recipe?: FilmRecipe;
+  developHistory?: FilmLook[]; // Previous looks, most recent last
+  caption?: PhotoCaption; // Missing means the plain capture time
+  back?: string; // Note written on the back, in the caption's pen
+  flipped?: boolean; // Showing its back
+  stackId?: string; // Photos sharing one are piled into a stack
+}
+
+// Scrapbook bits that share the wall with the photos.
+export type DecorationKind = 'tape' | 'pin' | 'sticker' | 'text' | 'stroke';
+
+interface DecorationBase extends WallItemBase {
+  kind: DecorationKind;
+  timestamp: number; // When it was put on the wall
+  fromLayout?: boolean; // A timeline's day marker; the next layout clears it
+}
+
+// Tape and pins can hold a photo, and then move and stack with it.
+export interface TapeDecoration extends DecorationBase {
+  kind: 'tape';
+  color: string;
+  attachedTo?: string; // Photo id
+}
+
+export interface PinDecoration extends DecorationBase {
+  kind: 'pin';
+  color: string;
+  attachedTo?: string;
+}
+
+export interface StickerDecoration extends DecorationBase {
+  kind: 'sticker';
+  emoji: string;
+}
+
+export interface TextDecoration extends DecorationBase {
+  kind: 'text';
+  text: string;
+  fontId: string; // One of the caption fonts
+  color: string;
+}
+
+// A pen line drawn on the wall. Points are relative to the item's top-left.
+export interface StrokeDecoration extends DecorationBase {
+  kind: 'stroke';
+  points: { x: number; y: number }[];
+  width: number;
+  height: number;
+  color: string;
+  lineWidth: number; // px at scale 1
+}
+
+export type Decoration = TapeDecoration | PinDecoration | StickerDecoration | TextDecoration | StrokeDecoration;
+
+export type WallItem = PhotoData | Decoration;
+
+// What's written on a print's chin.
+export type CaptionStamp = 'date' | 'time' | 'both' | 'none';
+
+export interface PhotoCaption {
+  text: string; // Handwritten note; may be empty
+  fontId: string;
+  color: string; // CSS color of the marker
+  stamp: CaptionStamp; // Capture date/time written alongside the note
+}
+
+export interface CaptionFont {
+  id: string;
+  name: string;
+  family: string; // CSS font-family, also used for canvas exports
+}
+
+// A named wall of its own (an event, a project): photos, layout and background.
+export interface Board {
+  id: string;
+  name: string;
+  backgroundId: string; // One of the wall backgrounds
+  createdAt: number;
+}
+
+export interface WallBackground {
+  id: string;
+  name: string;
+  color: string;
+  mark: 'dots' | 'lines'; // Repeated every `tile` world px
+  ink: string;
+  size: number; // Dot radius or line width, px
+  tile: number;
+}
+
+// Which part of the infinite wall is on screen: a world point p is drawn at
+// (p.x * zoom + x, p.y * zoom + y) client pixels.
+export interface WallViewport {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+// What dragging empty wall space does.
+export type WallTool = 'pan' | 'select' | 'draw';
+
+// Physical print layout. Border, top and chin are fractions of the card
+// width so a format renders identically at any size.
+export interface FilmFormat {
+  id: string;
+  name: string;
+  aspect: number; // Frame width / height
+  border: number; // Left and right border
+  top: number; // Border above the first frame
+  chin: number; // Writing area below the last frame
+  frames: number; // Frames stacked vertically (photo-booth strip)
+  gap: number; // Border between stacked frames
+  cardWidth: number; // On-wall width at scale 1, px
+}
+
+// How one press of the shutter turns into prints: a single print, a burst
+// of separate prints, or a timed photo-booth strip.
+export type DriveMode = 'single' | 'burst' | 'booth';
+
+// How the second exposure of a double exposure lands on the first.
+export interface ExposureBlend {
+  mode: 'screen' | 'lighten' | 'multiply';
+  opacity: number; // 0-1
+}
+
+// The film loaded in the camera when pack mode is on. Each print uses one
+// exposure; stock and format are fixed until the next reload.
+export interface FilmPack {
+  enabled: boolean;
+  size: number; // Exposures per pack
+  remaining: number;
+  tintId: string;
+  formatId: string;
+}
+
+export type CameraFacing = 'user' | 'environment';
+
+export interface CaptureResolution {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+}
+
+// Where the camera's frames come from. Everything downstream (viewfinder,
+// film pipeline, print) only sees a MediaFrame.
+export type MediaSourceSelection =
+  | { kind: 'camera' }
+  | { kind: 'screen' }
+  | { kind: 'video-file'; file: File }
+  | { kind: 'image'; file: File }
+  | { kind: 'test-pattern' };
+
+export type MediaSourceKind = MediaSourceSelection['kind'];
+
+export interface MediaFrame {
+  source: HTMLVideoElement | HTMLCanvasElement | HTMLImageElement;
+  width: number;
+  height: number;
 }
 
 export interface DragOffset {
   x: number;
   y: number;
 }
+
+// ---------------------------------------
+// FILM STOCKS
+// ---------------------------------------
+
+// Draws the source frame through a CSS filter string.
+export interface FilterStage {
+  kind: 'filter';
+  filter: string;
+}
+
+// Fills the whole frame with a flat color using the given blend mode.
+export interface FillStage {
+  kind: 'fill';
+  blend: GlobalCompositeOperation;
+  color: string;
+}
+
+// Radial falloff from transparent at `inner` to `color` at `outer`.
+// Radii are fractions of the frame's longest side.
+export interface VignetteStage {
+  kind: 'vignette';
+  blend: GlobalCompositeOperation;
+  inner: number;
+  outer: number;
+  color: string;
+}
+
+// Redraws a blurred copy of the source on top, for halation/glow.
+export interface BloomStage {
+  kind: 'bloom';
+  blend: GlobalCompositeOperation;
+  blur: number; // px
+  opacity: number; // 0..1
+}
+
+// Monochrome per-pixel noise, +/- amount / 2 per channel.
+export interface GrainStage {
+  kind: 'grain';
+  amount: number;
+}
+
+export type FilmStageSpec = FilterStage | FillStage | VignetteStage | BloomStage | GrainStage;
+
+// A stage runs its `flash` variant when the flash fired and `noFlash` otherwise.
+// A null variant skips the stage for that mode.
+export interface FilmStage {
+  flash: FilmStageSpec | null;
+  noFlash: FilmStageSpec | null;
+}
+
+export interface FilmStock {
+  id: string;
+  name: string;
+  color: string; // Tailwind class for the selector swatch
+  swatch?: string; // CSS color, used instead of `color` for custom presets
+  stages: FilmStage[];
+  developTime?: number; // ms, defaults to DEVELOP_TIME
+}
+
+// The slider-level description of a user-made look. Compiled to a FilmStock
+// by presetToFilmStock; this is also the shape of exported preset files.
+export interface FilmPreset {
+  id: string;
+  name: string;
+  hue: number; // deg, -180..180
+  saturation: number; // 0..2
+  contrast: number; // 0.5..2
+  vignetteColor: string; // #rrggbb
+  vignetteStrength: number; // 0..1
+  overlayColor: string; // #rrggbb
+  overlayOpacity: number; // 0..0.5
+  bloom: number; // 0..1
+  grain: number; // 0..60
+  developTime: number; // s, 2..30
+}
@@ -0,0 +1,71 @@
+import { PhotoData, WallItem } from '../types';
+import { DecorationDraft, canAttach, createDecoration, hostOf, isPhoto } from './decorations';
+import { itemContains, itemPose, rotatePoint, transformGroup } from './selection';
+import { stackingOrder } from './zOrder';
+
+const TAPE_TILT = 8; // deg either way, so strips don't look machine-laid
+const PIN_INSET = 16; // px below the card's top edge, at scale 1
+
+/**
+ * Carries tape and pins along with the photos they hold: anything whose
+ * photo moved, turned or resized between `prev` and `next`, and that wasn't
+ * moved itself, gets the same rigid move. Returns `next` if nothing rides.
+ */
+export const followAttachments = <T extends WallItem>(prev: T[], next: T[]): T[] => {
+  const prevById = new Map(prev.map((item) => [item.id, item]));
+  const nextById = new Map(next.map((item) => [item.id, item]));
+  let changed = false;
+  const result = next.map((item) => {
+    const host = hostOf(item);
+    if (!host || prevById.get(item.id) !== item) return item;
+    const before = prevById.get(host);
+    const after = nextById.get(host);
+    if (!before || !after || before === after) return item;
+    if (before.x === after.x && before.y === after.y && before.rotation === after.rotation && before.scale === after.scale) {
+      return item;
+    }
+    const from = itemPose(before);
+    const to = itemPose(after);
+    const update = transformGroup([itemPose(item)], from.center, {
+      dx: to.center.x - from.center.x,
+      dy: to.center.y - from.center.y,
+      angle: to.rotation - from.rotation,
+      factor: to.scale / from.scale,
+    }).get(item.id);
+    changed = true;
+    return { ...item, ...update };
+  });
+  return changed ? result : next;
+};
+
+/** The topmost photo under `item`'s centre, ignoring the item itself. */
+const photoUnder = (items: WallItem[], item: WallItem): PhotoData | undefined => {
+  const { center } = itemPose(item);
+  const byId = new Map(items.map((i) => [i.id, i]));
+  return stackingOrder(items)
+    .reverse()
+    .map((id) => byId.get(id) as WallItem)
+    .filter(isPhoto)
+    .find((photo) => photo.id !== item.id && itemContains(photo, center));
+};
+
+/**
+ * After a drop, tape and pins among `ids` take hold of the photo they landed
+ * on, or let go if they landed on bare wall.
+ */
+export const attachDropped = <T extends WallItem>(items: T[], ids: string[]): T[] =>
+  items.map((item) => {
+    if (!ids.includes(item.id) || !canAttach(item)) return item;
+    const attachedTo = photoUnder(items, item)?.id;
+    return hostOf(item) === attachedTo ? item : { ...item, attachedTo };
+  });
+
+/** A new strip of tape across the top edge of `photo`, or a pin near it, holding it. */
+export const decorationOnPhoto = (draft: DecorationDraft & { kind: 'tape' | 'pin' }, photo: PhotoData) => {
+  const pose = itemPose(photo);
+  const inset = draft.kind === 'pin' ? PIN_INSET : 0;
+  const offset = rotatePoint({ x: 0, y: (-pose.height / 2 + inset) * pose.scale }, pose.rotation);
+  const tilt = draft.kind === 'tape' ? (Math.random() * 2 - 1) * TAPE_TILT : 0;
+  const decoration = createDecoration(draft, { x: pose.center.x + offset.x, y: pose.center.y + offset.y }, pose.rotation + tilt);
+  return { ...decoration, scale: pose.scale, attachedTo: photo.id };
+};
@@ -0,0 +1,112 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BOARD_NAME_MAX_LENGTH, WALL_BACKGROUNDS } from '../constants';
+import { Board, WallBackground, WallItem } from '../types';
+import { isDecoration, isPhoto } from './decorations';
+
+const STORAGE_KEY = 'pulsesnap.boards';
+const ACTIVE_KEY = 'pulsesnap.activeBoard';
+
+// Walls saved before boards existed belong to this one.
+export const DEFAULT_BOARD_ID = 'default';
+
+const DEFAULT_BOARD: Board = {
+  id: DEFAULT_BOARD_ID,
+  name: 'My Wall',
+  backgroundId: WALL_BACKGROUNDS[0].id,
+  createdAt: 0,
+};
+
+export const wallBackground = (id: string) => WALL_BACKGROUNDS.find((b) => b.id === id) ?? WALL_BACKGROUNDS[0];
+
+/** The wall's pattern as CSS, for one tile of `background.tile` px. */
+export const wallPatternCss = ({ mark, ink, size }: WallBackground) => {
+  const line = (direction: string) => `linear-gradient(${direction}${ink} ${size}px, transparent ${size}px)`;
+  return mark === 'dots' ? `radial-gradient(${ink} ${size}px, transparent ${size}px)` : `${line('')}, ${line('90deg, ')}`;
+};
+
+export const cleanBoardName = (name: string) => name.trim().slice(0, BOARD_NAME_MAX_LENGTH);
+
+const isBoard = (value: unknown): value is Board => {
+  const board = value as Partial<Board> | null;
+  return (
+    !!board &&
+    typeof board.id === 'string' &&
+    typeof board.name === 'string' &&
+    typeof board.backgroundId === 'string' &&
+    typeof board.createdAt === 'number'
+  );
+};
+
+/** The saved boards, oldest first. There's always at least one. */
+export const loadBoards = (): Board[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : null;
+    const boards = Array.isArray(parsed) ? parsed.filter(isBoard) : [];
+    return boards.length > 0 ? boards : [DEFAULT_BOARD];
+  } catch (err) {
+    console.warn('Could not load boards', err);
+    return [DEFAULT_BOARD];
+  }
+};
+
+export const saveBoards = (boards: Board[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(boards));
+  } catch (err) {
+    console.warn('Could not save boards', err);
+  }
+};
+
+export const loadActiveBoardId = (boards: Board[]) => {
+  try {
+    const stored = localStorage.getItem(ACTIVE_KEY);
+    return boards.some((b) => b.id === stored) ? (stored as string) : boards[0].id;
+  } catch {
+    return boards[0].id;
+  }
+};
+
+export const saveActiveBoardId = (id: string) => {
+  try {
+    localStorage.setItem(ACTIVE_KEY, id);
+  } catch (err) {
+    console.warn('Could not save the active board', err);
+  }
+};
+
+export const createBoard = (name: string, backgroundId = WALL_BACKGROUNDS[0].id): Board => ({
+  id: uuidv4(),
+  name: cleanBoardName(name) || 'Untitled',
+  backgroundId,
+  createdAt: Date.now(),
+});
+
+/** "Trip", "Trip 2", "Trip 3"... whichever isn't taken yet. */
+export const freeBoardName = (boards: Board[], name: string) => {
+  const base = cleanBoardName(name).replace(/ \d+$/, '') || 'Board';
+  const taken = new Set(boards.map((b) => b.name));
+  if (!taken.has(base)) return base;
+  for (let n = 2; ; n++) {
+    if (!taken.has(`${base} ${n}`)) return `${base} ${n}`;
+  }
+};
+
+/**
+ * Copies of `items` with fresh ids, for another board. Stacks and the tape
+ * and pins holding photos are rewired to the copies.
+ */
+export const cloneItems = (items: WallItem[]): WallItem[] => {
+  const ids = new Map<string, string>();
+  const fresh = (id: string) => {
+    if (!ids.has(id)) ids.set(id, uuidv4());
+    return ids.get(id) as string;
+  };
+  return items.map((item): WallItem => {
+    if (isPhoto(item)) return { ...item, id: fresh(item.id), stackId: item.stackId && fresh(item.stackId) };
+    if (isDecoration(item) && (item.kind === 'tape' || item.kind === 'pin')) {
+      return { ...item, id: fresh(item.id), attachedTo: item.attachedTo && fresh(item.attachedTo) };
+    }
+    return { ...item, id: fresh(item.id) };
+  });
+};
@@ -0,0 +1,82 @@
+import { CAPTION_FONTS, DEFAULT_CAPTION } from '../constants';
+import { CaptionFont, CaptionStamp, PhotoCaption, PhotoData } from '../types';
+import { CardGeometry } from './filmFormat';
+
+// Sizes are fractions of the card width, so the wall and exports agree at any size.
+const NOTE_SIZE = 14 / 240;
+const STAMP_SIZE = 10 / 240;
+// Line centres as fractions of the chin, measured from its top.
+const SINGLE_LINE_CENTER = 0.45;
+const NOTE_CENTER = 0.36;
+const STAMP_CENTER = 0.72;
+export const CAPTION_TILT = -1; // deg
+
+export interface CaptionLine {
+  text: string;
+  family: string;
+  size: number; // px
+  centerY: number; // px from the card's top
+}
+
+export const captionOf = (photo: PhotoData): PhotoCaption => ({ ...DEFAULT_CAPTION, ...photo.caption });
+
+export const captionFont = (fontId: string): CaptionFont =>
+  CAPTION_FONTS.find((f) => f.id === fontId) ?? CAPTION_FONTS[0];
+
+export const formatCaptionStamp = (timestamp: number, stamp: CaptionStamp) => {
+  const date = new Date(timestamp);
+  const day = date.toLocaleDateString([], { day: 'numeric', month: 'short', year: 'numeric' });
+  const time = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  if (stamp === 'date') return day;
+  if (stamp === 'time') return time;
+  if (stamp === 'both') return `${day} · ${time}`;
+  return '';
+};
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+/** Width of `text` in a CSS `font`, as canvas would draw it. */
+export const textWidth = (text: string, font: string) => {
+  measureContext ??= document.createElement('canvas').getContext('2d');
+  if (!measureContext) return 0;
+  measureContext.font = font;
+  return measureContext.measureText(text).width;
+};
+
+// Long notes shrink to fit between the borders rather than running off the card.
+const fitSize = (text: string, family: string, size: number, maxWidth: number) => {
+  const width = textWidth(text, `${size}px ${family}`);
+  return width > maxWidth ? size * (maxWidth / width) : size;
+};
+
+/**
+ * The lines written on a card's chin. The note, if there is one, takes the
+ * main line and the stamp goes underneath in smaller writing; otherwise the
+ * stamp alone takes the main line, as it always has.
+ */
+export const layoutCaption = (photo: PhotoData, g: CardGeometry): CaptionLine[] => {
+  const caption = captionOf(photo);
+  const { family } = captionFont(caption.fontId);
+  const note = caption.text.trim();
+  const stamp = formatCaptionStamp(photo.timestamp, caption.stamp);
+  const chinTop = g.height - g.chin;
+  const line = (text: string, size: number, center: number): CaptionLine => ({
+    text,
+    family,
+    size: fitSize(text, family, size * g.width, g.frameWidth),
+    centerY: chinTop + g.chin * center,
+  });
+
+  if (note && stamp) return [line(note, NOTE_SIZE, NOTE_CENTER), line(stamp, STAMP_SIZE, STAMP_CENTER)];
+  if (note || stamp) return [line(note || stamp, NOTE_SIZE, SINGLE_LINE_CENTER)];
+  return [];
+};
+
+/** Waits for a caption's font so canvas exports don't fall back to a system face. */
+export const loadCaptionFont = async (photo: PhotoData) => {
+  try {
+    await document.fonts.load(`16px ${captionFont(captionOf(photo).fontId).family}`);
+  } catch {
+    // Drawn in the fallback font instead.
+  }
+};
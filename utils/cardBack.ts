@@ -0,0 +1,80 @@
+import { PhotoData } from '../types';
+import { captionFont, captionOf, textWidth } from './caption';
+import { CardGeometry } from './filmFormat';
+import { getFilmStocks } from './presets';
+
+export const BACK_COLOR = '#f3f0e8';
+export const BACK_PRINT_COLOR = '#9ca3af';
+export const BACK_PRINT_FAMILY = 'Inter, sans-serif';
+// Fractions of the card width, like the chin caption.
+const NOTE_SIZE = 15 / 240;
+const PRINT_SIZE = 7 / 240;
+const MARGIN = 18 / 240;
+export const BACK_LINE_HEIGHT = 1.35; // of the note size
+
+export interface BackLayout {
+  family: string;
+  color: string;
+  size: number; // px
+  lineHeight: number; // px
+  margin: number; // px
+  lines: string[]; // Already wrapped to the card
+  printed: { text: string; size: number; centerY: number };
+}
+
+/** The small factory-style line at the foot of the back: date and film. */
+export const backPrintedText = (photo: PhotoData) => {
+  const date = new Date(photo.timestamp).toLocaleDateString([], { day: 'numeric', month: 'short', year: 'numeric' });
+  const stock = getFilmStocks().find((s) => s.id === photo.recipe?.tintId);
+  return (stock ? `${date} · ${stock.name}` : date).toUpperCase();
+};
+
+// Greedy word wrap; words wider than a line are broken by character.
+const wrap = (text: string, font: string, maxWidth: number) =>
+  text.split('\n').flatMap((paragraph) => {
+    const lines: string[] = [];
+    let line = '';
+    paragraph.split(/(\s+)/).forEach((word) => {
+      const candidate = line + word;
+      if (!line || textWidth(candidate, font) <= maxWidth) {
+        line = candidate;
+        return;
+      }
+      lines.push(line.trimEnd());
+      line = word.trimStart();
+      while (line && textWidth(line, font) > maxWidth) {
+        let cut = line.length - 1;
+        while (cut > 1 && textWidth(line.slice(0, cut), font) > maxWidth) cut--;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    });
+    lines.push(line.trimEnd());
+    return lines;
+  });
+
+/**
+ * How the back of a card is written, shared by the wall and exports. Lines
+ * that don't fit above the printed line are dropped, like running out of card.
+ */
+export const layoutBack = (photo: PhotoData, g: CardGeometry): BackLayout => {
+  const caption = captionOf(photo);
+  const { family } = captionFont(caption.fontId);
+  const size = NOTE_SIZE * g.width;
+  const lineHeight = size * BACK_LINE_HEIGHT;
+  const margin = MARGIN * g.width;
+  const printSize = PRINT_SIZE * g.width;
+  const printedCenter = g.height - margin;
+  const maxLines = Math.max(0, Math.floor((printedCenter - printSize * 2 - margin) / lineHeight));
+  const lines = photo.back ? wrap(photo.back, `${size}px ${family}`, g.width - margin * 2) : [];
+
+  return {
+    family,
+    color: caption.color,
+    size,
+    lineHeight,
+    margin,
+    lines: lines.slice(0, maxLines),
+    printed: { text: backPrintedText(photo), size: printSize, centerY: printedCenter },
+  };
+};
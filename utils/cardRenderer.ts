@@ -0,0 +1,137 @@
+import { Decoration, PhotoData } from '../types';
+import { CAPTION_TILT, captionOf, layoutCaption, loadCaptionFont } from './caption';
+import { BACK_COLOR, BACK_PRINT_COLOR, BACK_PRINT_FAMILY, layoutBack } from './cardBack';
+import { loadImage } from './developFilm';
+import { drawDevelopingFrame } from './development';
+import { drawDecorationAt } from './decorationRenderer';
+import { cardGeometry, frameTop, getFilmFormat } from './filmFormat';
+import { itemPose } from './selection';
+import { resolveImageUrl } from './wallStore';
+
+// Exports are 2.5x the on-wall size: 600x725 for the classic square card.
+export const EXPORT_SCALE = 2.5;
+
+/**
+ * Draws a photo's full card (border, frames, chin caption) onto a new canvas,
+ * with any tape or pins holding it cropped to the card like a scan. Below a
+ * `progress` of 1 the frames are still developing, as on the wall.
+ */
+export const renderCardCanvas = async (
+  photo: PhotoData,
+  width?: number,
+  held: Decoration[] = [],
+  progress = 1
+): Promise<HTMLCanvasElement> => {
+  const format = getFilmFormat(photo.formatId);
+  const g = cardGeometry(format, width ?? format.cardWidth * EXPORT_SCALE);
+  const img = await loadImage(await resolveImageUrl(photo.url));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(g.width);
+  canvas.height = Math.round(g.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+  ctx.fillStyle = photo.borderColor || '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  const sliceHeight = img.naturalHeight / g.frames;
+  const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
+  gradient.addColorStop(0, 'rgba(0,0,0,0.05)');
+  gradient.addColorStop(1, 'rgba(0,0,0,0)');
+  for (let i = 0; i < g.frames; i++) {
+    const top = frameTop(g, i);
+    if (progress < 1) {
+      const frame = document.createElement('canvas');
+      frame.width = Math.round(g.frameWidth);
+      frame.height = Math.round(g.frameHeight);
+      const frameCtx = frame.getContext('2d');
+      if (!frameCtx) throw new Error('Canvas 2D context unavailable');
+      drawDevelopingFrame(frameCtx, img, { x: 0, y: i * sliceHeight, width: img.naturalWidth, height: sliceHeight }, progress);
+      ctx.drawImage(frame, g.border, top, g.frameWidth, g.frameHeight);
+    } else {
+      ctx.drawImage(img, 0, i * sliceHeight, img.naturalWidth, sliceHeight, g.border, top, g.frameWidth, g.frameHeight);
+    }
+    ctx.fillStyle = gradient;
+    ctx.fillRect(g.border, top, g.frameWidth, g.frameHeight);
+  }
+
+  // Same layout as CardCaption on the wall, so the file matches the print.
+  await loadCaptionFont(photo);
+  const lines = layoutCaption(photo, g);
+  ctx.fillStyle = captionOf(photo).color;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  lines.forEach((line) => {
+    ctx.save();
+    ctx.font = `${line.size}px ${line.family}`;
+    ctx.translate(g.width / 2, line.centerY);
+    ctx.rotate(CAPTION_TILT * Math.PI / 180);
+    ctx.fillText(line.text, 0, 0);
+    ctx.restore();
+  });
+
+  if (held.length > 0) {
+    // From wall coordinates into the card's own, undoing its turn and size.
+    const pose = itemPose(photo);
+    ctx.save();
+    ctx.scale(g.width / pose.width, g.width / pose.width);
+    ctx.translate(pose.width / 2, pose.height / 2);
+    ctx.scale(1 / pose.scale, 1 / pose.scale);
+    ctx.rotate((-pose.rotation * Math.PI) / 180);
+    ctx.translate(-pose.center.x, -pose.center.y);
+    held.forEach((decoration) => drawDecorationAt(ctx, decoration));
+    ctx.restore();
+  }
+
+  return canvas;
+};
+
+/** Draws the back of a photo's card (note and printed line), same size as the front. */
+export const renderCardBackCanvas = async (photo: PhotoData, width?: number): Promise<HTMLCanvasElement> => {
+  const format = getFilmFormat(photo.formatId);
+  const g = cardGeometry(format, width ?? format.cardWidth * EXPORT_SCALE);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(g.width);
+  canvas.height = Math.round(g.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+  ctx.fillStyle = BACK_COLOR;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  // Same layout as CardBack on the wall.
+  await loadCaptionFont(photo);
+  const layout = layoutBack(photo, g);
+  ctx.fillStyle = layout.color;
+  ctx.font = `${layout.size}px ${layout.family}`;
+  ctx.textBaseline = 'middle';
+  layout.lines.forEach((line, i) => {
+    ctx.fillText(line, layout.margin, layout.margin + layout.lineHeight * (i + 0.5));
+  });
+
+  ctx.fillStyle = BACK_PRINT_COLOR;
+  ctx.font = `${layout.printed.size}px ${BACK_PRINT_FAMILY}`;
+  ctx.textAlign = 'center';
+  ctx.fillText(layout.printed.text, g.width / 2, layout.printed.centerY);
+
+  return canvas;
+};
+
+export const downloadCanvas = (canvas: HTMLCanvasElement, filename: string) => {
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = canvas.toDataURL('image/jpeg', 0.9);
+  link.click();
+};
+
+// For files too big to pass around as a data URL, like whole-wall exports.
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
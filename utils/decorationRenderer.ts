@@ -0,0 +1,78 @@
+import { Decoration } from '../types';
+import { decorationSize, doodleFont, tapeOutline } from './decorations';
+import { itemPose } from './selection';
+
+// Pin geometry as fractions of its box, shared with WallDecoration's SVG.
+export const PIN_HEAD = { cx: 0.46, cy: 0.42, r: 0.34 };
+export const PIN_SHADOW_OFFSET = 0.1;
+export const PIN_GLINT = { cx: 0.36, cy: 0.3, r: 0.11 };
+export const STICKER_FONT_SIZE = 0.8; // Of the sticker's box
+
+/**
+ * Draws a decoration at its unscaled size, centred on the origin. The
+ * caller positions it; see drawDecorationAt for wall coordinates.
+ */
+export const drawDecoration = (ctx: CanvasRenderingContext2D, decoration: Decoration) => {
+  const { width, height } = decorationSize(decoration);
+  ctx.save();
+  ctx.translate(-width / 2, -height / 2);
+
+  switch (decoration.kind) {
+    case 'tape': {
+      const outline = tapeOutline(width, height);
+      ctx.beginPath();
+      outline.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+      ctx.closePath();
+      ctx.fillStyle = decoration.color;
+      ctx.fill();
+      break;
+    }
+    case 'pin': {
+      const head = (cx: number, cy: number, r: number, color: string) => {
+        ctx.beginPath();
+        ctx.arc(cx * width, cy * height, r * width, 0, Math.PI * 2);
+        ctx.fillStyle = color;
+        ctx.fill();
+      };
+      head(PIN_HEAD.cx + PIN_SHADOW_OFFSET, PIN_HEAD.cy + PIN_SHADOW_OFFSET, PIN_HEAD.r, 'rgba(0, 0, 0, 0.2)');
+      head(PIN_HEAD.cx, PIN_HEAD.cy, PIN_HEAD.r, decoration.color);
+      head(PIN_GLINT.cx, PIN_GLINT.cy, PIN_GLINT.r, 'rgba(255, 255, 255, 0.6)');
+      break;
+    }
+    case 'sticker':
+      ctx.font = `${height * STICKER_FONT_SIZE}px sans-serif`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(decoration.emoji, width / 2, height / 2);
+      break;
+    case 'text':
+      ctx.font = doodleFont(decoration);
+      ctx.fillStyle = decoration.color;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(decoration.text, width / 2, height / 2);
+      break;
+    case 'stroke':
+      ctx.beginPath();
+      decoration.points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+      ctx.strokeStyle = decoration.color;
+      ctx.lineWidth = decoration.lineWidth;
+      ctx.lineCap = 'round';
+      ctx.lineJoin = 'round';
+      ctx.stroke();
+      break;
+  }
+
+  ctx.restore();
+};
+
+/** Draws a decoration where it sits on the wall, with `ctx` in world coordinates. */
+export const drawDecorationAt = (ctx: CanvasRenderingContext2D, decoration: Decoration) => {
+  const { center, rotation, scale } = itemPose(decoration);
+  ctx.save();
+  ctx.translate(center.x, center.y);
+  ctx.rotate((rotation * Math.PI) / 180);
+  ctx.scale(scale, scale);
+  drawDecoration(ctx, decoration);
+  ctx.restore();
+};
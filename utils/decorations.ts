@@ -0,0 +1,112 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Decoration, PhotoData, TextDecoration, WallItem } from '../types';
+import { captionFont, textWidth } from './caption';
+import type { Point } from './selection';
+
+// Unscaled sizes, px.
+const TAPE_WIDTH = 110;
+const TAPE_HEIGHT = 30;
+const TAPE_TEETH = 4; // Torn zigzag on each end
+const PIN_SIZE = 26;
+const STICKER_SIZE = 56;
+export const DOODLE_SIZE = 28; // Font size
+const DOODLE_PADDING = 6;
+
+export type DecorationDraft =
+  | { kind: 'tape'; color: string }
+  | { kind: 'pin'; color: string }
+  | { kind: 'sticker'; emoji: string }
+  | { kind: 'text'; text: string; fontId: string; color: string };
+
+export const isDecoration = (item: WallItem): item is Decoration => 'kind' in item;
+
+export const isPhoto = (item: WallItem): item is PhotoData => !('kind' in item);
+
+/** Tape and pins are the decorations that can hold a photo. */
+export const canAttach = (item: WallItem) => isDecoration(item) && (item.kind === 'tape' || item.kind === 'pin');
+
+/** The photo a strip of tape or a pin is holding, if any. */
+export const hostOf = (item: WallItem) =>
+  isDecoration(item) && (item.kind === 'tape' || item.kind === 'pin') ? item.attachedTo : undefined;
+
+export const doodleFont = (text: TextDecoration) => `${DOODLE_SIZE}px ${captionFont(text.fontId).family}`;
+
+export const decorationSize = (decoration: Decoration) => {
+  switch (decoration.kind) {
+    case 'tape':
+      return { width: TAPE_WIDTH, height: TAPE_HEIGHT };
+    case 'pin':
+      return { width: PIN_SIZE, height: PIN_SIZE };
+    case 'sticker':
+      return { width: STICKER_SIZE, height: STICKER_SIZE };
+    case 'text':
+      return {
+        // Never so narrow that an empty doodle can't be typed into.
+        width: Math.max(textWidth(decoration.text, doodleFont(decoration)) + DOODLE_PADDING * 2, DOODLE_SIZE * 2),
+        height: DOODLE_SIZE * 1.3,
+      };
+    case 'stroke':
+      return { width: decoration.width, height: decoration.height };
+  }
+};
+
+/** Outline of a tape strip with torn ends, shared by the wall and exports. */
+export const tapeOutline = (width: number, height: number): Point[] => {
+  const tooth = height / TAPE_TEETH;
+  const depth = tooth * 0.6;
+  const left: Point[] = [];
+  const right: Point[] = [];
+  for (let i = 0; i <= TAPE_TEETH * 2; i++) {
+    const y = (i * tooth) / 2;
+    const inset = i % 2 ? depth : 0;
+    right.push({ x: width - inset, y });
+    left.push({ x: inset, y });
+  }
+  return [...right, ...left.reverse()];
+};
+
+/** A new decoration centred on `center`. */
+export const createDecoration = (draft: DecorationDraft, center: Point, rotation = 0): Decoration => {
+  const decoration = { ...draft, id: uuidv4(), x: 0, y: 0, rotation, scale: 1, timestamp: Date.now() } as Decoration;
+  const { width, height } = decorationSize(decoration);
+  return { ...decoration, x: center.x - width / 2, y: center.y - height / 2 };
+};
+
+/**
+ * A pen stroke from world points. The item's box is the stroke's bounds plus
+ * half the line, so the ends aren't clipped.
+ */
+export const createStroke = (points: Point[], color: string, lineWidth: number): Decoration | null => {
+  if (points.length < 2) return null;
+  const pad = lineWidth / 2;
+  const left = Math.min(...points.map((p) => p.x)) - pad;
+  const top = Math.min(...points.map((p) => p.y)) - pad;
+  const right = Math.max(...points.map((p) => p.x)) + pad;
+  const bottom = Math.max(...points.map((p) => p.y)) + pad;
+  return {
+    kind: 'stroke',
+    id: uuidv4(),
+    x: left,
+    y: top,
+    rotation: 0,
+    scale: 1,
+    timestamp: Date.now(),
+    points: points.map((p) => ({ x: p.x - left, y: p.y - top })),
+    width: right - left,
+    height: bottom - top,
+    color,
+    lineWidth,
+  };
+};
+
+/** SVG path data through a stroke's points. */
+export const strokePath = (points: Point[]) =>
+  points.map((p, i) => `${i === 0 ? 'M' : 'L'}${p.x.toFixed(1)} ${p.y.toFixed(1)}`).join(' ');
+
+export const DECORATION_LABELS: Record<Decoration['kind'], string> = {
+  tape: 'tape',
+  pin: 'pin',
+  sticker: 'sticker',
+  text: 'doodle',
+  stroke: 'drawing',
+};
@@ -0,0 +1,211 @@
+import { ExposureBlend, FilmRecipe, FilmStock } from '../types';
+import { FilmCrop, renderFilmStock } from './filmEngine';
+import { createRandom } from './prng';
+import type { FilmWorkerRequest, FilmWorkerResponse } from './filmWorker';
+
+export interface DevelopOptions {
+  source: CanvasImageSource;
+  crop: FilmCrop;
+  stock: FilmStock;
+  flash: boolean;
+  mirror: boolean;
+  seed: number;
+}
+
+const JPEG_QUALITY = 0.95;
+
+const supportsWorker = () =>
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof createImageBitmap === 'function';
+
+let worker: Worker | null = null;
+let workerBroken = false;
+let nextRequestId = 0;
+const pending = new Map<number, { resolve: (blob: Blob) => void; reject: (err: Error) => void }>();
+
+const getWorker = () => {
+  if (worker) return worker;
+  worker = new Worker(new URL('./filmWorker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (e: MessageEvent<FilmWorkerResponse>) => {
+    const request = pending.get(e.data.id);
+    if (!request) return;
+    pending.delete(e.data.id);
+    if ('blob' in e.data) request.resolve(e.data.blob);
+    else request.reject(new Error(e.data.error));
+  };
+  worker.onerror = (e) => {
+    // A worker that fails to boot fails every request; stop using it.
+    workerBroken = true;
+    worker?.terminate();
+    worker = null;
+    pending.forEach((request) => request.reject(new Error(e.message || 'Film worker crashed')));
+    pending.clear();
+  };
+  return worker;
+};
+
+// Prints live in memory as blobs behind object URLs rather than base64 data
+// URLs: a third of the size, and the wall store can persist the blob as is.
+const canvasToObjectUrl = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Promise<string>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(URL.createObjectURL(blob)) : reject(new Error(`Could not encode ${type}`))),
+      type,
+      quality
+    );
+  });
+
+const developInWorker = async (options: DevelopOptions): Promise<string> => {
+  const { source, crop, stock, flash, mirror, seed } = options;
+  // Cropping here is cheap (GPU side) and keeps the transfer small.
+  const bitmap = await createImageBitmap(source as ImageBitmapSource, crop.x, crop.y, crop.width, crop.height);
+  const id = nextRequestId++;
+  const message: FilmWorkerRequest = {
+    id,
+    bitmap,
+    width: Math.round(crop.width),
+    height: Math.round(crop.height),
+    stock,
+    flash,
+    mirror,
+    seed,
+  };
+
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    getWorker().postMessage(message, [bitmap]);
+  });
+  return URL.createObjectURL(blob);
+};
+
+/** Synchronous main-thread path; also what the worker path falls back to. */
+export const developOnMainThread = (options: DevelopOptions): Promise<string> => {
+  const { source, crop, stock, flash, mirror, seed } = options;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(crop.width);
+  canvas.height = Math.round(crop.height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+  renderFilmStock(ctx, stock, { source, crop, flash, mirror, random: createRandom(seed) });
+  return canvasToObjectUrl(canvas, 'image/jpeg', JPEG_QUALITY);
+};
+
+/**
+ * Runs the film pipeline for one print and resolves with a JPEG object URL.
+ * Uses a Web Worker + OffscreenCanvas where available so the grain pass
+ * doesn't block the UI; the same seed always yields the same bytes.
+ */
+export const developFilm = async (options: DevelopOptions): Promise<string> => {
+  if (supportsWorker() && !workerBroken) {
+    try {
+      return await developInWorker(options);
+    } catch (err) {
+      console.warn('Film worker failed, developing on main thread', err);
+    }
+  }
+  return developOnMainThread(options);
+};
+
+/** Copies the crop out of a live source so later stages all see the same pixels. */
+export const grabFrame = (source: CanvasImageSource, crop: FilmCrop): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(crop.width);
+  canvas.height = Math.round(crop.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  ctx.drawImage(source, crop.x, crop.y, crop.width, crop.height, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+/** Lossless, asynchronously encoded copy of a raw frame. */
+export const encodeRawFrame = (canvas: HTMLCanvasElement) => canvasToObjectUrl(canvas, 'image/png');
+
+export const loadImage = (url: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not load image'));
+    img.src = url;
+  });
+
+/** Stacks equally sized frames top to bottom, as a strip's raw copy. */
+export const stackFrames = (frames: HTMLCanvasElement[]): HTMLCanvasElement => {
+  if (frames.length === 1) return frames[0];
+  const canvas = document.createElement('canvas');
+  canvas.width = frames[0].width;
+  canvas.height = frames[0].height * frames.length;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  frames.forEach((frame, i) => ctx.drawImage(frame, 0, i * frame.height));
+  return canvas;
+};
+
+/**
+ * Exposes `overlay` onto `base` as a second exposure of the same frame.
+ * The result is still raw, so the blend survives a re-develop.
+ */
+export const blendExposures = (
+  base: HTMLCanvasElement,
+  overlay: HTMLCanvasElement,
+  blend: ExposureBlend
+): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = base.width;
+  canvas.height = base.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  ctx.drawImage(base, 0, 0);
+  ctx.globalCompositeOperation = blend.mode;
+  ctx.globalAlpha = blend.opacity;
+  ctx.drawImage(overlay, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+/**
+ * Develops a raw print made of `frameCount` stacked frames. Each frame gets
+ * its own vignette and grain (seed + index), like separate exposures.
+ */
+export const developFrames = async (
+  raw: HTMLCanvasElement | HTMLImageElement,
+  frameCount: number,
+  stock: FilmStock,
+  recipe: FilmRecipe
+): Promise<string> => {
+  const width = raw instanceof HTMLImageElement ? raw.naturalWidth : raw.width;
+  const height = raw instanceof HTMLImageElement ? raw.naturalHeight : raw.height;
+  const frameHeight = height / frameCount;
+  const develop = (index: number) =>
+    developFilm({
+      source: raw,
+      crop: { x: 0, y: index * frameHeight, width, height: frameHeight },
+      stock,
+      flash: recipe.flash,
+      mirror: recipe.mirror,
+      seed: (recipe.seed + index) >>> 0,
+    });
+
+  if (frameCount === 1) return develop(0);
+
+  const urls = await Promise.all(Array.from({ length: frameCount }, (_, i) => develop(i)));
+  const developed = await Promise.all(urls.map(loadImage)).finally(() =>
+    urls.forEach((url) => URL.revokeObjectURL(url))
+  );
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width);
+  canvas.height = Math.round(height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  developed.forEach((img, i) => ctx.drawImage(img, 0, Math.round(i * frameHeight)));
+  return canvasToObjectUrl(canvas, 'image/jpeg', JPEG_QUALITY);
+};
+
+/** Re-runs the film pipeline on a stored raw print. */
+export const redevelopFilm = async (
+  rawUrl: string,
+  frameCount: number,
+  stock: FilmStock,
+  recipe: FilmRecipe
+) => developFrames(await loadImage(rawUrl), frameCount, stock, recipe);
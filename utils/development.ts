@@ -0,0 +1,71 @@
+import { DEVELOP_TIME } from '../constants';
+import { FilmStock, PhotoData } from '../types';
+
+// The three things a print visibly goes through, by progress (0..1).
+export type DevelopStage = 'milky' | 'emerging' | 'contrast' | 'done';
+
+export const developTimeFor = (stock?: FilmStock) => stock?.developTime ?? DEVELOP_TIME;
+
+export const developProgressOf = (photo: PhotoData) =>
+  photo.isDeveloping ? photo.developProgress ?? 0 : 1;
+
+export const developStage = (progress: number): DevelopStage => {
+  if (progress >= 1) return 'done';
+  if (progress < 0.35) return 'milky';
+  if (progress < 0.75) return 'emerging';
+  return 'contrast';
+};
+
+/**
+ * Moves a developing photo `elapsed` ms along at `speed`, finishing it once
+ * progress reaches 1. Paused and finished photos come back unchanged.
+ */
+export const advanceDevelopment = (photo: PhotoData, elapsed: number, speed = 1): PhotoData => {
+  if (!photo.isDeveloping || photo.developPaused) return photo;
+  const progress = (photo.developProgress ?? 0) + (elapsed * speed) / (photo.developTime ?? DEVELOP_TIME);
+  if (progress < 1) return { ...photo, developProgress: progress };
+  return { ...photo, isDeveloping: false, developProgress: undefined, developPaused: undefined };
+};
+
+// Blue-grey of fresh, unexposed reagent.
+const MILK = '178, 190, 200';
+
+const smoothstep = (edge0: number, edge1: number, x: number) => {
+  const t = Math.min(1, Math.max(0, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+};
+
+/**
+ * Draws one frame of the chemistry: a milky blue-grey sheet that thins out,
+ * colour creeping in underneath, then the contrast settling to the final print.
+ * `source` picks the slice of `image` to show; with no image yet the sheet
+ * is just milk.
+ */
+export const drawDevelopingFrame = (
+  ctx: CanvasRenderingContext2D,
+  image: CanvasImageSource | null,
+  source: { x: number; y: number; width: number; height: number },
+  progress: number
+) => {
+  const { width, height } = ctx.canvas;
+  if (!image) {
+    ctx.fillStyle = `rgb(${MILK})`;
+    ctx.fillRect(0, 0, width, height);
+    return;
+  }
+
+  const saturation = smoothstep(0.3, 0.75, progress);
+  const contrast = 0.55 + 0.45 * smoothstep(0.6, 1, progress);
+  const brightness = 1.35 - 0.35 * smoothstep(0.4, 1, progress);
+  const milk = 1 - smoothstep(0, 0.55, progress);
+
+  ctx.clearRect(0, 0, width, height);
+  ctx.filter = `saturate(${saturation}) contrast(${contrast}) brightness(${brightness})`;
+  ctx.drawImage(image, source.x, source.y, source.width, source.height, 0, 0, width, height);
+  ctx.filter = 'none';
+
+  if (milk > 0) {
+    ctx.fillStyle = `rgba(${MILK}, ${milk})`;
+    ctx.fillRect(0, 0, width, height);
+  }
+};
@@ -0,0 +1,139 @@
+import { FilmStage, FilmStageSpec, FilmStock } from '../types';
+
+export type FilmContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export interface FilmCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FilmRenderOptions {
+  source: CanvasImageSource;
+  crop: FilmCrop; // Region of the source to print, in source pixels
+  flash: boolean;
+  mirror: boolean;
+  random?: () => number; // Grain noise source, defaults to Math.random
+  pixelScale?: number; // Multiplier for pixel-sized params (blur) when rendering a downscaled preview
+}
+
+const drawSource = (ctx: FilmContext, options: FilmRenderOptions) => {
+  const { width, height } = ctx.canvas;
+  const { source, crop } = options;
+  if (options.mirror) {
+    ctx.translate(width, 0);
+    ctx.scale(-1, 1);
+  }
+  ctx.drawImage(source, crop.x, crop.y, crop.width, crop.height, 0, 0, width, height);
+};
+
+const applyGrain = (ctx: FilmContext, amount: number, random: () => number) => {
+  const { width, height } = ctx.canvas;
+  try {
+    const img = ctx.getImageData(0, 0, width, height);
+    const data = img.data;
+    for (let i = 0; i < data.length; i += 4) {
+      const n = (random() - 0.5) * amount;
+      data[i] += n;
+      data[i + 1] += n;
+      data[i + 2] += n;
+    }
+    ctx.putImageData(img, 0, 0);
+  } catch (err) {
+    console.log('grain error', err);
+  }
+};
+
+const renderStage = (ctx: FilmContext, stage: FilmStageSpec, options: FilmRenderOptions) => {
+  const { width, height } = ctx.canvas;
+
+  switch (stage.kind) {
+    case 'filter':
+      ctx.save();
+      ctx.filter = stage.filter;
+      drawSource(ctx, options);
+      ctx.restore();
+      break;
+
+    case 'fill':
+      ctx.save();
+      ctx.globalCompositeOperation = stage.blend;
+      ctx.fillStyle = stage.color;
+      ctx.fillRect(0, 0, width, height);
+      ctx.restore();
+      break;
+
+    case 'vignette': {
+      const extent = Math.max(width, height);
+      ctx.save();
+      ctx.globalCompositeOperation = stage.blend;
+      const gradient = ctx.createRadialGradient(
+        width / 2,
+        height / 2,
+        extent * stage.inner,
+        width / 2,
+        height / 2,
+        extent * stage.outer
+      );
+      gradient.addColorStop(0, 'rgba(0,0,0,0)');
+      gradient.addColorStop(1, stage.color);
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, width, height);
+      ctx.restore();
+      break;
+    }
+
+    case 'bloom':
+      ctx.save();
+      ctx.globalCompositeOperation = stage.blend;
+      ctx.filter = `blur(${stage.blur * (options.pixelScale ?? 1)}px) opacity(${stage.opacity})`;
+      drawSource(ctx, options);
+      ctx.restore();
+      break;
+
+    case 'grain':
+      applyGrain(ctx, stage.amount, options.random ?? Math.random);
+      break;
+  }
+};
+
+/**
+ * Renders `stock` into the full extent of `ctx.canvas`, running each stage's
+ * flash or no-flash variant in order.
+ */
+export const renderFilmStock = (ctx: FilmContext, stock: FilmStock, options: FilmRenderOptions) => {
+  for (const stage of stock.stages) {
+    const spec = options.flash ? stage.flash : stage.noFlash;
+    if (spec) renderStage(ctx, spec, options);
+  }
+};
+
+/** Largest centered region of a `width` x `height` frame with the given aspect (w / h). */
+export const centerCrop = (width: number, height: number, aspect: number): FilmCrop => {
+  if (aspect === 1) {
+    const size = Math.min(width, height);
+    return { x: (width - size) / 2, y: (height - size) / 2, width: size, height: size };
+  }
+  const cropWidth = Math.round(Math.min(width, height * aspect));
+  const cropHeight = Math.round(cropWidth / aspect);
+  return { x: (width - cropWidth) / 2, y: (height - cropHeight) / 2, width: cropWidth, height: cropHeight };
+};
+
+/** Largest centered square of a `width` x `height` frame. */
+export const centerSquareCrop = (width: number, height: number) => centerCrop(width, height, 1);
+
+// ---------------------------------------
+// STAGE BUILDERS
+// ---------------------------------------
+export const both = (spec: FilmStageSpec): FilmStage => ({ flash: spec, noFlash: spec });
+export const flashOnly = (spec: FilmStageSpec): FilmStage => ({ flash: spec, noFlash: null });
+export const noFlashOnly = (spec: FilmStageSpec): FilmStage => ({ flash: null, noFlash: spec });
+
+// Flash pulls the falloff in tighter, like a hotspot from a direct flash.
+export const vignette = (color: string): FilmStage => ({
+  flash: { kind: 'vignette', blend: 'multiply', inner: 0.22, outer: 0.88, color },
+  noFlash: { kind: 'vignette', blend: 'multiply', inner: 0.45, outer: 1.05, color },
+});
+
+export const grain = (amount: number) => both({ kind: 'grain', amount });
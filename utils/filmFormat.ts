@@ -0,0 +1,44 @@
+import { DEFAULT_FORMAT_ID, FILM_FORMATS } from '../constants';
+import { FilmFormat } from '../types';
+
+export interface CardGeometry {
+  width: number;
+  height: number;
+  border: number;
+  top: number;
+  chin: number;
+  gap: number;
+  frameWidth: number;
+  frameHeight: number;
+  frames: number;
+}
+
+export const getFilmFormat = (id?: string): FilmFormat =>
+  FILM_FORMATS.find((f) => f.id === id) ??
+  FILM_FORMATS.find((f) => f.id === DEFAULT_FORMAT_ID) ??
+  FILM_FORMATS[0];
+
+/** Pixel layout of a card `width` px wide. */
+export const cardGeometry = (format: FilmFormat, width = format.cardWidth): CardGeometry => {
+  const border = format.border * width;
+  const top = format.top * width;
+  const chin = format.chin * width;
+  const gap = format.gap * width;
+  const frameWidth = width - border * 2;
+  const frameHeight = frameWidth / format.aspect;
+  return {
+    width,
+    height: top + frameHeight * format.frames + gap * (format.frames - 1) + chin,
+    border,
+    top,
+    chin,
+    gap,
+    frameWidth,
+    frameHeight,
+    frames: format.frames,
+  };
+};
+
+/** Top edge of frame `index`, measured from the card's top. */
+export const frameTop = (geometry: CardGeometry, index: number) =>
+  geometry.top + index * (geometry.frameHeight + geometry.gap);
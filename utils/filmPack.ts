@@ -0,0 +1,54 @@
+import { DEFAULT_FILM_PACK_SIZE, DEFAULT_FORMAT_ID, FILM_FORMATS, TINT_OPTIONS } from '../constants';
+import { FilmPack } from '../types';
+
+const STORAGE_KEY = 'pulsesnap.filmPack';
+
+export const DEFAULT_FILM_PACK: FilmPack = {
+  enabled: false,
+  size: DEFAULT_FILM_PACK_SIZE,
+  remaining: DEFAULT_FILM_PACK_SIZE,
+  tintId: TINT_OPTIONS[0].id,
+  formatId: DEFAULT_FORMAT_ID,
+};
+
+const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+export const loadFilmPack = (): FilmPack => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_FILM_PACK;
+    const parsed = JSON.parse(stored) as Partial<FilmPack>;
+    // Fall back field by field so one bad value doesn't refill a half-used pack.
+    const size = isCount(parsed.size) && parsed.size > 0 ? parsed.size : DEFAULT_FILM_PACK.size;
+    return {
+      enabled: typeof parsed.enabled === 'boolean' ? parsed.enabled : DEFAULT_FILM_PACK.enabled,
+      size,
+      remaining: isCount(parsed.remaining) ? Math.min(parsed.remaining, size) : size,
+      // Custom stocks may have been deleted since; the camera falls back to the first stock.
+      tintId: typeof parsed.tintId === 'string' ? parsed.tintId : DEFAULT_FILM_PACK.tintId,
+      formatId: FILM_FORMATS.some((f) => f.id === parsed.formatId)
+        ? (parsed.formatId as string)
+        : DEFAULT_FILM_PACK.formatId,
+    };
+  } catch (err) {
+    console.warn('Could not load film pack', err);
+    return DEFAULT_FILM_PACK;
+  }
+};
+
+export const saveFilmPack = (pack: FilmPack) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(pack));
+  } catch (err) {
+    console.warn('Could not save film pack', err);
+  }
+};
+
+/** A fresh pack of `tintId` film in `formatId`. */
+export const reloadFilmPack = (pack: FilmPack, tintId: string, formatId: string): FilmPack => ({
+  ...pack,
+  remaining: pack.size,
+  tintId,
+  formatId,
+});
@@ -0,0 +1,337 @@
+import { FilmStageSpec, FilmStock } from '../types';
+import { FilmCrop } from './filmEngine';
+
+// ---------------------------------------
+// STOCK -> GLSL
+// ---------------------------------------
+// Compiles a film stock into a fragment shader that mirrors renderFilmStock
+// stage for stage. CSS filter functions are all 3x3 color matrices or simple
+// affine maps (Filter Effects spec), so they translate exactly; anything we
+// can't express returns null and the caller falls back to the 2D engine.
+
+type Rgba = [number, number, number, number];
+type Row = [number, number, number];
+
+const f = (n: number) => (Number.isInteger(n) ? `${n}.0` : n.toFixed(6));
+const vec3 = (r: Row) => `vec3(${r.map(f).join(', ')})`;
+
+const parseColor = (color: string): Rgba | null => {
+  const hex = color.match(/^#([0-9a-f]{6})$/i);
+  if (hex) {
+    const v = parseInt(hex[1], 16);
+    return [(v >> 16) / 255, ((v >> 8) & 0xff) / 255, (v & 0xff) / 255, 1];
+  }
+  const rgb = color.match(/^rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*(?:,\s*([\d.]+)\s*)?\)$/i);
+  if (rgb) {
+    return [Number(rgb[1]) / 255, Number(rgb[2]) / 255, Number(rgb[3]) / 255, rgb[4] === undefined ? 1 : Number(rgb[4])];
+  }
+  return null;
+};
+
+const parseAmount = (arg: string) => (arg.endsWith('%') ? parseFloat(arg) / 100 : parseFloat(arg));
+
+const parseAngle = (arg: string) => {
+  const n = parseFloat(arg);
+  if (arg.endsWith('rad')) return n;
+  if (arg.endsWith('turn')) return n * Math.PI * 2;
+  return (n * Math.PI) / 180;
+};
+
+const matrixLine = (rows: [Row, Row, Row]) =>
+  `c = clamp(vec3(dot(${vec3(rows[0])}, c), dot(${vec3(rows[1])}, c), dot(${vec3(rows[2])}, c)), 0.0, 1.0);`;
+
+const compileFilterFunction = (name: string, arg: string): string | null => {
+  if (name === 'hue-rotate') {
+    const a = parseAngle(arg);
+    const cos = Math.cos(a);
+    const sin = Math.sin(a);
+    return matrixLine([
+      [0.213 + cos * 0.787 - sin * 0.213, 0.715 - cos * 0.715 - sin * 0.715, 0.072 - cos * 0.072 + sin * 0.928],
+      [0.213 - cos * 0.213 + sin * 0.143, 0.715 + cos * 0.285 + sin * 0.14, 0.072 - cos * 0.072 - sin * 0.283],
+      [0.213 - cos * 0.213 - sin * 0.787, 0.715 - cos * 0.715 + sin * 0.715, 0.072 + cos * 0.928 + sin * 0.072],
+    ]);
+  }
+
+  const amount = parseAmount(arg);
+  if (!Number.isFinite(amount)) return null;
+
+  switch (name) {
+    case 'saturate':
+      return matrixLine([
+        [0.213 + 0.787 * amount, 0.715 - 0.715 * amount, 0.072 - 0.072 * amount],
+        [0.213 - 0.213 * amount, 0.715 + 0.285 * amount, 0.072 - 0.072 * amount],
+        [0.213 - 0.213 * amount, 0.715 - 0.715 * amount, 0.072 + 0.928 * amount],
+      ]);
+    case 'sepia': {
+      const s = 1 - Math.min(1, amount);
+      return matrixLine([
+        [0.393 + 0.607 * s, 0.769 - 0.769 * s, 0.189 - 0.189 * s],
+        [0.349 - 0.349 * s, 0.686 + 0.314 * s, 0.168 - 0.168 * s],
+        [0.272 - 0.272 * s, 0.534 - 0.534 * s, 0.131 + 0.869 * s],
+      ]);
+    }
+    case 'grayscale': {
+      const s = 1 - Math.min(1, amount);
+      return matrixLine([
+        [0.2126 + 0.7874 * s, 0.7152 - 0.7152 * s, 0.0722 - 0.0722 * s],
+        [0.2126 - 0.2126 * s, 0.7152 + 0.2848 * s, 0.0722 - 0.0722 * s],
+        [0.2126 - 0.2126 * s, 0.7152 - 0.7152 * s, 0.0722 + 0.9278 * s],
+      ]);
+    }
+    case 'brightness':
+      return `c = clamp(c * ${f(amount)}, 0.0, 1.0);`;
+    case 'contrast':
+      return `c = clamp((c - 0.5) * ${f(amount)} + 0.5, 0.0, 1.0);`;
+    case 'invert':
+      return `c = mix(c, 1.0 - c, ${f(Math.min(1, amount))});`;
+    default:
+      return null;
+  }
+};
+
+const compileFilter = (filter: string): string | null => {
+  const trimmed = filter.trim();
+  if (trimmed === '' || trimmed === 'none') return 'c = source(v_uv);';
+
+  const lines = ['c = source(v_uv);'];
+  const pattern = /([a-z-]+)\(([^)]*)\)/gi;
+  let consumed = '';
+  for (const match of trimmed.matchAll(pattern)) {
+    const line = compileFilterFunction(match[1].toLowerCase(), match[2].trim());
+    if (!line) return null;
+    lines.push(line);
+    consumed += match[0];
+  }
+  // Reject anything the pattern skipped over (urls, typos) rather than ignore it.
+  if (consumed.replace(/\s/g, '') !== trimmed.replace(/\s/g, '')) return null;
+  return lines.join('\n    ');
+};
+
+const blendExpression = (blend: GlobalCompositeOperation): string | null => {
+  switch (blend) {
+    case 'source-over':
+      return 'f';
+    case 'multiply':
+      return 'c * f';
+    case 'screen':
+      return '1.0 - (1.0 - c) * (1.0 - f)';
+    case 'overlay':
+      return 'overlayBlend(c, f)';
+    case 'lighten':
+      return 'max(c, f)';
+    case 'darken':
+      return 'min(c, f)';
+    default:
+      return null;
+  }
+};
+
+const compileStage = (stage: FilmStageSpec): string | null => {
+  switch (stage.kind) {
+    case 'filter':
+      return compileFilter(stage.filter);
+
+    case 'fill': {
+      const color = parseColor(stage.color);
+      const expr = blendExpression(stage.blend);
+      if (!color || !expr) return null;
+      return `{ vec3 f = ${vec3([color[0], color[1], color[2]])}; c = mix(c, ${expr}, ${f(color[3])}); }`;
+    }
+
+    case 'vignette': {
+      const color = parseColor(stage.color);
+      const expr = blendExpression(stage.blend);
+      if (!color || !expr) return null;
+      return `{
+      float extent = max(u_size.x, u_size.y);
+      float d = distance(v_uv * u_size, u_size * 0.5);
+      float t = clamp((d - extent * ${f(stage.inner)}) / (extent * ${f(stage.outer - stage.inner)}), 0.0, 1.0);
+      vec3 f = ${vec3([color[0], color[1], color[2]])};
+      c = mix(c, ${expr}, t * ${f(color[3])});
+    }`;
+    }
+
+    case 'bloom': {
+      const expr = blendExpression(stage.blend);
+      if (!expr) return null;
+      return `{ vec3 f = blurred(v_uv, ${f(stage.blur)} * u_pixelScale); c = mix(c, ${expr}, ${f(stage.opacity)}); }`;
+    }
+
+    case 'grain':
+      return `c += (hash(floor(v_uv * u_size) + u_seed) - 0.5) * ${f(stage.amount / 255)};`;
+  }
+};
+
+const FRAGMENT_PRELUDE = `
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+precision highp float;
+#else
+precision mediump float;
+#endif
+
+uniform sampler2D u_frame;
+uniform vec4 u_crop;       // x, y, w, h in texture uv
+uniform vec2 u_size;       // output px
+uniform float u_mirror;
+uniform float u_pixelScale;
+uniform float u_seed;
+varying vec2 v_uv;         // 0..1, y down
+
+vec3 source(vec2 uv) {
+  float x = u_mirror > 0.5 ? 1.0 - uv.x : uv.x;
+  return texture2D(u_frame, u_crop.xy + vec2(x, uv.y) * u_crop.zw).rgb;
+}
+
+// 5x5 taps spaced one sigma apart: close enough to CSS blur() at preview size.
+vec3 blurred(vec2 uv, float sigma) {
+  vec2 stepUv = vec2(sigma) / u_size;
+  vec3 sum = vec3(0.0);
+  float total = 0.0;
+  for (int i = -2; i <= 2; i++) {
+    for (int j = -2; j <= 2; j++) {
+      float w = exp(-0.5 * float(i * i + j * j));
+      sum += source(clamp(uv + vec2(float(i), float(j)) * stepUv, 0.0, 1.0)) * w;
+      total += w;
+    }
+  }
+  return sum / total;
+}
+
+vec3 overlayBlend(vec3 b, vec3 s) {
+  return mix(2.0 * b * s, 1.0 - 2.0 * (1.0 - b) * (1.0 - s), step(0.5, b));
+}
+
+float hash(vec2 p) {
+  return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
+}
+`;
+
+export const VERTEX_SHADER = `
+attribute vec2 a_position;
+varying vec2 v_uv;
+void main() {
+  v_uv = vec2(a_position.x * 0.5 + 0.5, 0.5 - a_position.y * 0.5);
+  gl_Position = vec4(a_position, 0.0, 1.0);
+}
+`;
+
+/** Fragment shader source for one stock/flash combination, or null if unsupported. */
+export const compileFilmShader = (stock: FilmStock, flash: boolean): string | null => {
+  const body: string[] = [];
+  for (const stage of stock.stages) {
+    const spec = flash ? stage.flash : stage.noFlash;
+    if (!spec) continue;
+    const line = compileStage(spec);
+    if (line === null) return null;
+    body.push(line);
+  }
+  return `${FRAGMENT_PRELUDE}
+void main() {
+    vec3 c = vec3(0.0);
+    ${body.join('\n    ')}
+    gl_FragColor = vec4(clamp(c, 0.0, 1.0), 1.0);
+}
+`;
+};
+
+// ---------------------------------------
+// RENDERER
+// ---------------------------------------
+export interface GLFilmRenderer {
+  render: (
+    source: TexImageSource,
+    sourceSize: { width: number; height: number },
+    crop: FilmCrop,
+    fragmentShader: string,
+    mirror: boolean,
+    pixelScale: number
+  ) => void;
+  dispose: () => void;
+}
+
+const compile = (gl: WebGLRenderingContext, type: number, src: string) => {
+  const shader = gl.createShader(type);
+  if (!shader) throw new Error('Could not create shader');
+  gl.shaderSource(shader, src);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const log = gl.getShaderInfoLog(shader);
+    gl.deleteShader(shader);
+    throw new Error(`Shader compile failed: ${log}`);
+  }
+  return shader;
+};
+
+/** Returns null when WebGL isn't available on this canvas. */
+export const createGLFilmRenderer = (canvas: HTMLCanvasElement): GLFilmRenderer | null => {
+  const gl = canvas.getContext('webgl', { antialias: false, preserveDrawingBuffer: false });
+  if (!gl) return null;
+
+  const vertex = compile(gl, gl.VERTEX_SHADER, VERTEX_SHADER);
+  const programs = new Map<string, WebGLProgram>();
+
+  const getProgram = (fragmentShader: string) => {
+    const cached = programs.get(fragmentShader);
+    if (cached) return cached;
+    const program = gl.createProgram();
+    if (!program) throw new Error('Could not create program');
+    const fragment = compile(gl, gl.FRAGMENT_SHADER, fragmentShader);
+    gl.attachShader(program, vertex);
+    gl.attachShader(program, fragment);
+    gl.linkProgram(program);
+    gl.deleteShader(fragment);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      throw new Error(`Program link failed: ${gl.getProgramInfoLog(program)}`);
+    }
+    programs.set(fragmentShader, program);
+    return program;
+  };
+
+  const quad = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, quad);
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+
+  const texture = gl.createTexture();
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+
+  return {
+    render: (source, sourceSize, crop, fragmentShader, mirror, pixelScale) => {
+      const program = getProgram(fragmentShader);
+      gl.useProgram(program);
+      gl.viewport(0, 0, canvas.width, canvas.height);
+
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGB, gl.RGB, gl.UNSIGNED_BYTE, source);
+
+      const position = gl.getAttribLocation(program, 'a_position');
+      gl.bindBuffer(gl.ARRAY_BUFFER, quad);
+      gl.enableVertexAttribArray(position);
+      gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+
+      gl.uniform1i(gl.getUniformLocation(program, 'u_frame'), 0);
+      gl.uniform4f(
+        gl.getUniformLocation(program, 'u_crop'),
+        crop.x / sourceSize.width,
+        crop.y / sourceSize.height,
+        crop.width / sourceSize.width,
+        crop.height / sourceSize.height
+      );
+      gl.uniform2f(gl.getUniformLocation(program, 'u_size'), canvas.width, canvas.height);
+      gl.uniform1f(gl.getUniformLocation(program, 'u_mirror'), mirror ? 1 : 0);
+      gl.uniform1f(gl.getUniformLocation(program, 'u_pixelScale'), pixelScale);
+      gl.uniform1f(gl.getUniformLocation(program, 'u_seed'), Math.random() * 1000);
+
+      gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    },
+    dispose: () => {
+      programs.forEach((p) => gl.deleteProgram(p));
+      gl.deleteShader(vertex);
+      gl.deleteTexture(texture);
+      gl.deleteBuffer(quad);
+    },
+  };
+};
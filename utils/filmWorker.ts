@@ -0,0 +1,42 @@
+import { FilmStock } from '../types';
+import { renderFilmStock } from './filmEngine';
+import { createRandom } from './prng';
+
+export interface FilmWorkerRequest {
+  id: number;
+  bitmap: ImageBitmap; // Already cropped to the print area
+  width: number;
+  height: number;
+  stock: FilmStock;
+  flash: boolean;
+  mirror: boolean;
+  seed: number;
+}
+
+export type FilmWorkerResponse = { id: number; blob: Blob } | { id: number; error: string };
+
+// tsconfig only ships the DOM lib, so borrow Worker's shape for the global scope.
+const scope = self as unknown as Worker;
+
+scope.onmessage = async (e: MessageEvent<FilmWorkerRequest>) => {
+  const { id, bitmap, width, height, stock, flash, mirror, seed } = e.data;
+  try {
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('OffscreenCanvas 2D context unavailable');
+
+    renderFilmStock(ctx, stock, {
+      source: bitmap,
+      crop: { x: 0, y: 0, width: bitmap.width, height: bitmap.height },
+      flash,
+      mirror,
+      random: createRandom(seed),
+    });
+    bitmap.close();
+
+    const blob = await canvas.convertToBlob({ type: 'image/jpeg', quality: 0.95 });
+    scope.postMessage({ id, blob } satisfies FilmWorkerResponse);
+  } catch (err) {
+    scope.postMessage({ id, error: String(err) } satisfies FilmWorkerResponse);
+  }
+};
@@ -0,0 +1,25 @@
+import React from 'react';
+
+/** True when a key press belongs to a text field rather than the wall. */
+export const isTextInput = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * True when a key press is for the wall: nothing in particular has focus,
+ * or the wall or one of its items does. Keys pressed on the camera or a
+ * panel are theirs.
+ */
+export const isWallKeyTarget = (target: EventTarget | null, wall: HTMLElement | null) =>
+  target === document.body ||
+  (target instanceof Element && (target === wall || !!target.closest('[data-item-id]')));
+
+/** The keys that act on selected wall items, for aria-keyshortcuts. */
+export const ITEM_KEY_SHORTCUTS = 'ArrowUp ArrowDown ArrowLeft ArrowRight [ ] + - Delete';
+
+/**
+ * Whether a focus event came from the keyboard rather than a click. Tabbing
+ * to an item selects it; a click leaves selection to the press.
+ */
+export const isKeyboardFocus = (e: React.FocusEvent) =>
+  e.target === e.currentTarget && e.currentTarget.matches(':focus-visible');
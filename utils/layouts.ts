@@ -0,0 +1,253 @@
+import { CAPTION_COLORS, CAPTION_FONTS, PHOTO_SCALE_MAX, PHOTO_SCALE_MIN } from '../constants';
+import { Decoration, PhotoData, WallItem } from '../types';
+import { createDecoration, createStroke, isDecoration, isPhoto } from './decorations';
+import { stackMembers } from './photoStacks';
+import { ItemPose, ItemTransform, Point, Rect, itemBounds, itemPose, transformGroup, unionBounds } from './selection';
+import { nextZ } from './zOrder';
+
+export type WallLayout = 'grid' | 'timeline' | 'scatter' | 'collage';
+
+export const LAYOUT_LABELS: Record<WallLayout, string> = {
+  grid: 'Grid',
+  timeline: 'Timeline',
+  scatter: 'Scatter',
+  collage: 'Collage',
+};
+
+const GRID_GAP = 40; // px between cells
+const TIMELINE_GAP = 40; // px between photos on the same day
+const DAY_GAP = 160; // px between days
+const DAY_LABEL_RISE = 50; // px from the top of the row to the middle of a day's label
+const DAY_LINE_OVERHANG = 30; // px the separator reaches past the row
+const DAY_LINE_WIDTH = 2;
+const SCATTER_ROOM = 2.5; // Area to spread over, as a multiple of the cards' own
+const SCATTER_TRIES = 200; // Spots tried per card before the area grows
+const SCATTER_GROWTH = 1.15;
+const SCATTER_GAP = 10; // px kept clear between cards
+const SCATTER_TILT = 5; // deg either way, like a print pulled from the camera
+const COLLAGE_MARGIN = 60; // px inside the target rectangle
+const COLLAGE_GAP = 12; // px between cards
+
+// A photo, or a stack moved as one by its bottom card.
+interface Unit {
+  base: ItemPose;
+  members: ItemPose[];
+  timestamp: number;
+}
+
+// Where a unit's base card goes.
+interface Placement {
+  center: Point;
+  rotation: number;
+  scale: number;
+}
+
+const unitsOf = (items: WallItem[], photos: PhotoData[]): Unit[] => {
+  const seen = new Set<string>();
+  const units: Unit[] = [];
+  photos.forEach((photo) => {
+    if (seen.has(photo.stackId ?? photo.id)) return;
+    seen.add(photo.stackId ?? photo.id);
+    const members = photo.stackId ? stackMembers(items, photo.stackId) : [photo];
+    units.push({
+      base: itemPose(members[0]),
+      members: members.map(itemPose),
+      timestamp: Math.min(...members.map((p) => p.timestamp)),
+    });
+  });
+  return units.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+const upright = (center: Point): Placement => ({ center, rotation: 0, scale: 1 });
+
+const grid = (units: Unit[], origin: Point): Placement[] => {
+  const columns = Math.ceil(Math.sqrt(units.length));
+  const cellWidth = Math.max(...units.map((u) => u.base.width)) + GRID_GAP;
+  const cellHeight = Math.max(...units.map((u) => u.base.height)) + GRID_GAP;
+  return units.map((_, i) =>
+    upright({
+      x: origin.x + ((i % columns) + 0.5) * cellWidth,
+      y: origin.y + (Math.floor(i / columns) + 0.5) * cellHeight,
+    })
+  );
+};
+
+const dayOf = (timestamp: number) => new Date(timestamp).toDateString();
+
+/**
+ * One row, oldest on the left, with a wider gap where the day changes. Each
+ * day gets a handwritten date above it and a line between it and the last.
+ */
+const timeline = (units: Unit[], origin: Point): { placements: Placement[]; markers: Decoration[] } => {
+  const rowHeight = Math.max(...units.map((u) => u.base.height));
+  const placements: Placement[] = [];
+  const markers: Decoration[] = [];
+  let x = origin.x;
+  units.forEach((unit, i) => {
+    const day = dayOf(unit.timestamp);
+    if (i === 0 || day !== dayOf(units[i - 1].timestamp)) {
+      if (i > 0) {
+        x += DAY_GAP - TIMELINE_GAP;
+        const lineX = x - DAY_GAP / 2;
+        const line = createStroke(
+          [
+            { x: lineX, y: origin.y - DAY_LABEL_RISE - DAY_LINE_OVERHANG },
+            { x: lineX, y: origin.y + rowHeight + DAY_LINE_OVERHANG },
+          ],
+          CAPTION_COLORS[0],
+          DAY_LINE_WIDTH
+        );
+        if (line) markers.push(line);
+      }
+      const text = new Date(unit.timestamp).toLocaleDateString(undefined, {
+        weekday: 'short',
+        day: 'numeric',
+        month: 'short',
+      });
+      const label = createDecoration(
+        { kind: 'text', text, fontId: CAPTION_FONTS[0].id, color: CAPTION_COLORS[0] },
+        { x: 0, y: origin.y - DAY_LABEL_RISE }
+      );
+      markers.push({ ...label, x }); // Starts where the day does
+    }
+    placements.push(upright({ x: x + unit.base.width / 2, y: origin.y + rowHeight / 2 }));
+    x += unit.base.width + TIMELINE_GAP;
+  });
+  return { placements, markers: markers.map((m) => ({ ...m, fromLayout: true })) };
+};
+
+/**
+ * Drops cards at random spots where they can't touch: each keeps clear of
+ * the others by its circle, which holds it at any tilt. When a card finds
+ * no room the area grows and everything is dropped again.
+ */
+const scatter = (units: Unit[], origin: Point): Placement[] => {
+  const radii = units.map((u) => Math.hypot(u.base.width, u.base.height) / 2 + SCATTER_GAP / 2);
+  let side = Math.max(
+    Math.sqrt(radii.reduce((sum, r) => sum + Math.PI * r * r, 0) * SCATTER_ROOM),
+    Math.max(...radii) * 2
+  );
+  for (;;) {
+    const centers: Point[] = [];
+    const fits = radii.every((r) => {
+      for (let t = 0; t < SCATTER_TRIES; t++) {
+        const c = { x: origin.x + r + Math.random() * (side - 2 * r), y: origin.y + r + Math.random() * (side - 2 * r) };
+        if (centers.every((o, j) => Math.hypot(c.x - o.x, c.y - o.y) >= r + radii[j])) {
+          centers.push(c);
+          return true;
+        }
+      }
+      return false;
+    });
+    if (fits) {
+      return centers.map((center) => ({ center, rotation: Math.random() * SCATTER_TILT * 2 - SCATTER_TILT, scale: 1 }));
+    }
+    side *= SCATTER_GROWTH;
+  }
+};
+
+// Splits units into `count` rows of roughly equal total aspect ratio.
+const splitRows = (units: Unit[], count: number): Unit[][] => {
+  const aspect = (u: Unit) => u.base.width / u.base.height;
+  const total = units.reduce((sum, u) => sum + aspect(u), 0);
+  const rows: Unit[][] = [[]];
+  let filled = 0;
+  units.forEach((unit) => {
+    // A card goes in the row holding most of it.
+    if (rows[rows.length - 1].length > 0 && rows.length < count && filled + aspect(unit) / 2 > (total * rows.length) / count) {
+      rows.push([]);
+    }
+    rows[rows.length - 1].push(unit);
+    filled += aspect(unit);
+  });
+  return rows;
+};
+
+/**
+ * Justified rows, like a photo book page: every card in a row shares its
+ * height and the row spans the rectangle. Tries each row count and keeps the
+ * one that leaves the cards biggest once shrunk to fit.
+ */
+const collage = (units: Unit[], area: Rect): Placement[] => {
+  const left = area.left + COLLAGE_MARGIN;
+  const top = area.top + COLLAGE_MARGIN;
+  const width = Math.max(area.right - area.left - COLLAGE_MARGIN * 2, 1);
+  const height = Math.max(area.bottom - area.top - COLLAGE_MARGIN * 2, 1);
+
+  let best: { rows: Unit[][]; heights: number[]; fit: number; score: number } | null = null;
+  for (let count = 1; count <= units.length; count++) {
+    const rows = splitRows(units, count);
+    const heights = rows.map(
+      (row) => (width - COLLAGE_GAP * (row.length - 1)) / row.reduce((sum, u) => sum + u.base.width / u.base.height, 0)
+    );
+    const total = heights.reduce((sum, h) => sum + h, 0) + COLLAGE_GAP * (rows.length - 1);
+    const fit = Math.min(1, height / total);
+    const score = fit * fit * total;
+    if (!best || score > best.score) best = { rows, heights, fit, score };
+  }
+  if (!best) return [];
+
+  // Shrunk to fit, the whole page is centred in the rectangle.
+  const { rows, heights, fit } = best;
+  const pageHeight = (heights.reduce((sum, h) => sum + h, 0) + COLLAGE_GAP * (rows.length - 1)) * fit;
+  const offsetX = left + (width * (1 - fit)) / 2;
+  let y = top + (height - pageHeight) / 2;
+  const placed = new Map<Unit, Placement>();
+  rows.forEach((row, r) => {
+    const rowHeight = heights[r] * fit;
+    let x = offsetX;
+    row.forEach((unit) => {
+      // Spaced by the size the card really gets, which the clamp may change.
+      const scale = Math.max(PHOTO_SCALE_MIN, Math.min(PHOTO_SCALE_MAX, rowHeight / unit.base.height));
+      const cardWidth = unit.base.width * scale;
+      placed.set(unit, { center: { x: x + cardWidth / 2, y: y + rowHeight / 2 }, rotation: 0, scale });
+      x += cardWidth + COLLAGE_GAP * fit;
+    });
+    y += rowHeight + COLLAGE_GAP * fit;
+  });
+  return units.map((unit) => placed.get(unit) as Placement);
+};
+
+/**
+ * Lays out the photos in `ids`, oldest first; a stack moves as one. Grid,
+ * timeline and scatter start from the top-left of where the photos are now;
+ * a collage fills `area`. Day markers from an earlier timeline are cleared,
+ * and a new timeline adds its own. Tape and pins are left for the caller to
+ * carry along.
+ */
+export const arrangeWall = (items: WallItem[], ids: string[], layout: WallLayout, area: Rect): WallItem[] => {
+  const kept = items.filter((p) => !(isDecoration(p) && p.fromLayout));
+  const photos = kept.filter((p): p is PhotoData => isPhoto(p) && ids.includes(p.id));
+  const bounds = unionBounds(photos.map(itemBounds));
+  if (!bounds) return items;
+  const units = unitsOf(kept, photos);
+  const origin = { x: bounds.left, y: bounds.top };
+
+  let placements: Placement[];
+  let markers: Decoration[] = [];
+  if (layout === 'grid') placements = grid(units, origin);
+  else if (layout === 'timeline') ({ placements, markers } = timeline(units, origin));
+  else if (layout === 'scatter') placements = scatter(units, origin);
+  else placements = collage(units, area);
+
+  const updates = new Map<string, ItemTransform>();
+  units.forEach((unit, i) => {
+    const { center, rotation, scale } = placements[i];
+    const moved = transformGroup(unit.members, unit.base.center, {
+      dx: center.x - unit.base.center.x,
+      dy: center.y - unit.base.center.y,
+      angle: rotation - unit.base.rotation,
+      factor: scale / unit.base.scale,
+    });
+    moved.forEach((update, id) => updates.set(id, update));
+  });
+
+  const z = nextZ(kept);
+  return [
+    ...kept.map((p) => {
+      const update = updates.get(p.id);
+      return update ? { ...p, ...update } : p;
+    }),
+    ...markers.map((m, i) => ({ ...m, z: z + i })),
+  ];
+};
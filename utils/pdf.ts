@@ -0,0 +1,61 @@
+/** A page of the document: a JPEG filling it edge to edge. */
+export interface PdfPage {
+  jpeg: Uint8Array;
+  width: number; // px of the image
+  height: number;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Writes a bare-bones PDF with one image per page, each page `width` x
+ * `height` points. JPEG data goes in as is (DCTDecode), so nothing is
+ * re-encoded and no PDF library is needed.
+ */
+export const buildPdf = (pages: PdfPage[], width: number, height: number): Blob => {
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  // Objects are numbered from 1 in the order they're written.
+  const object = (...parts: (string | Uint8Array)[]) => {
+    offsets.push(length);
+    write(`${offsets.length} 0 obj\n`);
+    parts.forEach(write);
+    write('\nendobj\n');
+  };
+
+  // The binary comment tells readers not to treat the file as text.
+  write('%PDF-1.4\n');
+  write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+
+  // 1 is the catalog and 2 the page tree; each page then takes three: the
+  // page itself, its drawing instructions and its image.
+  const pageIds = pages.map((_, i) => 3 + i * 3);
+  const size = `${width.toFixed(2)} ${height.toFixed(2)}`;
+  object('<< /Type /Catalog /Pages 2 0 R >>');
+  object(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  pages.forEach((page, i) => {
+    const id = pageIds[i];
+    object(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${size}] /Resources << /XObject << /Im0 ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>`
+    );
+    const draw = `q ${width.toFixed(2)} 0 0 ${height.toFixed(2)} 0 0 cm /Im0 Do Q`;
+    object(`<< /Length ${draw.length} >>\nstream\n`, draw, '\nendstream');
+    object(
+      `<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`,
+      page.jpeg,
+      '\nendstream'
+    );
+  });
+
+  const xref = length;
+  write(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach((offset) => write(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  write(`trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+  return new Blob(chunks as BlobPart[], { type: 'application/pdf' });
+};
@@ -0,0 +1,89 @@
+import { PhotoData, WallItem } from '../types';
+import { isPhoto } from './decorations';
+import { ItemTransform, itemPose } from './selection';
+import { nextZ, stackingOrder } from './zOrder';
+
+const STACK_OFFSET = 4; // px between cards in a pile
+const STACK_TILT = 2; // deg, alternating, so a pile doesn't look machine-made
+const FAN_SPREAD = 0.55; // of a card width between fanned cards
+const FAN_DROP = 10; // px each card sinks per step from the middle
+const FAN_ANGLE = 6; // deg per card from the middle
+
+/** The photos in a stack, bottom to top. */
+export const stackMembers = (items: WallItem[], stackId: string): PhotoData[] => {
+  const byId = new Map(items.map((p) => [p.id, p]));
+  return stackingOrder(items)
+    .map((id) => byId.get(id) as WallItem)
+    .filter((p): p is PhotoData => isPhoto(p) && p.stackId === stackId);
+};
+
+const withoutStack = ({ stackId: _stackId, ...photo }: PhotoData): PhotoData => photo;
+
+// A stack of one is just a photo.
+const tidyStacks = (items: WallItem[]) => {
+  const counts = new Map<string, number>();
+  items.forEach((p) => isPhoto(p) && p.stackId && counts.set(p.stackId, (counts.get(p.stackId) ?? 0) + 1));
+  return items.map((p) => (isPhoto(p) && p.stackId && counts.get(p.stackId) === 1 ? withoutStack(p) : p));
+};
+
+/**
+ * Piles `ids` neatly on top of `targetId` (or the stack it's in): each lands
+ * a few pixels further down-right, turned and sized like the bottom card.
+ */
+export const snapIntoStack = (items: WallItem[], ids: string[], targetId: string): WallItem[] => {
+  const target = items.find((p): p is PhotoData => p.id === targetId && isPhoto(p));
+  if (!target || ids.includes(targetId)) return items;
+  const stackId = target.stackId ?? target.id;
+  const existing = target.stackId
+    ? stackMembers(items, stackId).filter((p) => !ids.includes(p.id))
+    : [target];
+  const base = itemPose(existing[0]);
+  const photoIds = items.filter((p) => isPhoto(p) && ids.includes(p.id)).map((p) => p.id);
+  const incoming = stackingOrder(items).filter((id) => photoIds.includes(id));
+  const z = nextZ(items);
+
+  return tidyStacks(
+    items.map((p) => {
+      if (p.id === target.id) return { ...p, stackId };
+      const k = incoming.indexOf(p.id);
+      if (k === -1) return p;
+      const depth = existing.length + k;
+      const { width, height } = itemPose(p);
+      return {
+        ...p,
+        stackId,
+        x: base.center.x + depth * STACK_OFFSET - width / 2,
+        y: base.center.y + depth * STACK_OFFSET - height / 2,
+        rotation: base.rotation + (depth % 2 ? STACK_TILT : -STACK_TILT),
+        scale: base.scale,
+        z: z + k,
+      };
+    })
+  );
+};
+
+/** Takes `ids` out of whatever stacks they're in, leaving them where they lie. */
+export const unstack = (items: WallItem[], ids: string[]): WallItem[] =>
+  tidyStacks(items.map((p) => (ids.includes(p.id) && isPhoto(p) && p.stackId ? withoutStack(p) : p)));
+
+/**
+ * Where each card of a stack goes when it's fanned out: spread sideways from
+ * the bottom card like a hand of cards. Only for display; nothing is saved.
+ */
+export const fanLayout = (members: PhotoData[]): Map<string, ItemTransform> => {
+  const layout = new Map<string, ItemTransform>();
+  if (members.length === 0) return layout;
+  const base = itemPose(members[0]);
+  const middle = (members.length - 1) / 2;
+  members.forEach((photo, i) => {
+    const { width, height } = itemPose(photo);
+    const offset = i - middle;
+    layout.set(photo.id, {
+      x: base.center.x + offset * base.width * base.scale * FAN_SPREAD - width / 2,
+      y: base.center.y + Math.abs(offset) * FAN_DROP * base.scale - height / 2,
+      rotation: offset * FAN_ANGLE,
+      scale: photo.scale,
+    });
+  });
+  return layout;
+};
@@ -0,0 +1,240 @@
+import { DEVELOP_TIME, TINT_OPTIONS } from '../constants';
+import { FilmPreset, FilmStage, FilmStock } from '../types';
+import { both, grain, noFlashOnly, vignette } from './filmEngine';
+
+export const PRESET_FILE_FORMAT = 'pulsesnap-film-preset';
+export const PRESET_FILE_VERSION = 1;
+const STORAGE_KEY = 'pulsesnap.customPresets';
+
+// Slider ranges. Also the bounds enforced on imported files.
+export const PRESET_RANGES = {
+  hue: { min: -180, max: 180, step: 1 },
+  saturation: { min: 0, max: 2, step: 0.01 },
+  contrast: { min: 0.5, max: 2, step: 0.01 },
+  vignetteStrength: { min: 0, max: 1, step: 0.01 },
+  overlayOpacity: { min: 0, max: 0.5, step: 0.01 },
+  bloom: { min: 0, max: 1, step: 0.01 },
+  grain: { min: 0, max: 60, step: 1 },
+  developTime: { min: 2, max: 30, step: 1 },
+} as const;
+
+type RangedKey = keyof typeof PRESET_RANGES;
+
+export const DEFAULT_PRESET: Omit<FilmPreset, 'id'> = {
+  name: 'My Film',
+  hue: 0,
+  saturation: 0.85,
+  contrast: 1,
+  vignetteColor: '#0f0f0f',
+  vignetteStrength: 0.75,
+  overlayColor: '#ffb400',
+  overlayOpacity: 0,
+  bloom: 0.35,
+  grain: 22,
+  developTime: DEVELOP_TIME / 1000,
+};
+
+export class PresetValidationError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid film preset:\n- ${issues.join('\n- ')}`);
+    this.name = 'PresetValidationError';
+  }
+}
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+const hexToRgba = (hex: string, alpha: number) => {
+  const r = parseInt(hex.slice(1, 3), 16);
+  const g = parseInt(hex.slice(3, 5), 16);
+  const b = parseInt(hex.slice(5, 7), 16);
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+};
+
+/**
+ * Checks an untrusted value (parsed JSON, localStorage) against the preset
+ * schema. Collects every problem before throwing so the user can fix a file
+ * in one go.
+ */
+export const validatePreset = (value: unknown): FilmPreset => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new PresetValidationError(['Expected a JSON object.']);
+  }
+  // Files and stored presets from before development time was configurable lack it.
+  const raw: Record<string, unknown> = {
+    developTime: DEFAULT_PRESET.developTime,
+    ...(value as Record<string, unknown>),
+  };
+  const issues: string[] = [];
+
+  if (raw.format !== undefined && raw.format !== PRESET_FILE_FORMAT) {
+    issues.push(`"format" must be "${PRESET_FILE_FORMAT}", got ${JSON.stringify(raw.format)}.`);
+  }
+  if (raw.version !== undefined && raw.version !== PRESET_FILE_VERSION) {
+    issues.push(`Unsupported "version" ${JSON.stringify(raw.version)}; this app reads version ${PRESET_FILE_VERSION}.`);
+  }
+
+  if (typeof raw.id !== 'string' || raw.id.length === 0) {
+    issues.push('"id" must be a non-empty string.');
+  }
+  if (typeof raw.name !== 'string' || raw.name.trim().length === 0) {
+    issues.push('"name" must be a non-empty string.');
+  } else if (raw.name.length > 40) {
+    issues.push('"name" must be at most 40 characters.');
+  }
+
+  for (const key of Object.keys(PRESET_RANGES) as RangedKey[]) {
+    const { min, max } = PRESET_RANGES[key];
+    const v = raw[key];
+    if (typeof v !== 'number' || !Number.isFinite(v)) {
+      issues.push(`"${key}" must be a number.`);
+    } else if (v < min || v > max) {
+      issues.push(`"${key}" is ${v}, outside the allowed range ${min} to ${max}.`);
+    }
+  }
+
+  for (const key of ['vignetteColor', 'overlayColor'] as const) {
+    const v = raw[key];
+    if (typeof v !== 'string' || !HEX_COLOR.test(v)) {
+      issues.push(`"${key}" must be a hex color like "#1a2b3c".`);
+    }
+  }
+
+  if (issues.length > 0) throw new PresetValidationError(issues);
+
+  return {
+    id: raw.id as string,
+    name: (raw.name as string).trim(),
+    hue: raw.hue as number,
+    saturation: raw.saturation as number,
+    contrast: raw.contrast as number,
+    vignetteColor: (raw.vignetteColor as string).toLowerCase(),
+    vignetteStrength: raw.vignetteStrength as number,
+    overlayColor: (raw.overlayColor as string).toLowerCase(),
+    overlayOpacity: raw.overlayOpacity as number,
+    bloom: raw.bloom as number,
+    grain: raw.grain as number,
+    developTime: raw.developTime as number,
+  };
+};
+
+/** Parses the text of an imported preset file. */
+export const parsePresetFile = (text: string): FilmPreset => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new PresetValidationError(['File is not valid JSON.']);
+  }
+  return validatePreset(json);
+};
+
+export const serializePreset = (preset: FilmPreset) =>
+  JSON.stringify({ format: PRESET_FILE_FORMAT, version: PRESET_FILE_VERSION, ...preset }, null, 2);
+
+export const downloadPreset = (preset: FilmPreset) => {
+  const blob = new Blob([serializePreset(preset)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = `${preset.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'preset'}.pulsesnap.json`;
+  link.href = url;
+  link.click();
+  // Revoking straight away can cancel the download in Firefox and Safari.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/** Compiles slider values into the same stage pipeline the built-in stocks use. */
+export const presetToFilmStock = (preset: FilmPreset): FilmStock => {
+  const tone = `hue-rotate(${preset.hue}deg) saturate(${preset.saturation})`;
+  const stages: FilmStage[] = [
+    {
+      flash: { kind: 'filter', filter: `${tone} contrast(${preset.contrast * 1.4}) brightness(1.3)` },
+      noFlash: { kind: 'filter', filter: `${tone} contrast(${preset.contrast * 0.9}) brightness(1.1)` },
+    },
+  ];
+  if (preset.overlayOpacity > 0) {
+    stages.push(both({ kind: 'fill', blend: 'overlay', color: hexToRgba(preset.overlayColor, preset.overlayOpacity) }));
+  }
+  if (preset.bloom > 0) {
+    stages.push(noFlashOnly({ kind: 'bloom', blend: 'screen', blur: 14, opacity: preset.bloom }));
+  }
+  if (preset.vignetteStrength > 0) {
+    stages.push(vignette(hexToRgba(preset.vignetteColor, preset.vignetteStrength)));
+  }
+  if (preset.grain > 0) {
+    stages.push(grain(preset.grain));
+  }
+
+  return {
+    id: preset.id,
+    name: preset.name,
+    color: '',
+    swatch: preset.overlayOpacity > 0 ? preset.overlayColor : preset.vignetteColor,
+    stages,
+    developTime: preset.developTime * 1000,
+  };
+};
+
+// ---------------------------------------
+// LOCAL STORAGE
+// ---------------------------------------
+export const loadCustomPresets = (): FilmPreset[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+    const parsed: unknown = JSON.parse(stored);
+    if (!Array.isArray(parsed)) return [];
+    // Drop anything that no longer validates rather than failing the whole list.
+    return parsed.flatMap((p) => {
+      try {
+        return [validatePreset(p)];
+      } catch (err) {
+        console.warn('Skipping stored preset', err);
+        return [];
+      }
+    });
+  } catch (err) {
+    console.warn('Could not load custom presets', err);
+    return [];
+  }
+};
+
+export const saveCustomPresets = (presets: FilmPreset[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  } catch (err) {
+    console.warn('Could not save custom presets', err);
+  }
+};
+
+/** Built-in stocks followed by the user's saved presets, as currently stored. */
+export const getFilmStocks = (): FilmStock[] => [
+  ...TINT_OPTIONS,
+  ...loadCustomPresets().map(presetToFilmStock),
+];
+
+// A stand-in scene for the editor thumbnail when no camera frame is available.
+export const createSampleFrame = (size: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return canvas;
+
+  const sky = ctx.createLinearGradient(0, 0, 0, size);
+  sky.addColorStop(0, '#7fb8e6');
+  sky.addColorStop(0.6, '#f3d9b1');
+  sky.addColorStop(1, '#6b8e4e');
+  ctx.fillStyle = sky;
+  ctx.fillRect(0, 0, size, size);
+
+  ctx.fillStyle = '#fff4c2';
+  ctx.beginPath();
+  ctx.arc(size * 0.7, size * 0.3, size * 0.12, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.fillStyle = '#c0392b';
+  ctx.fillRect(size * 0.15, size * 0.55, size * 0.25, size * 0.3);
+  ctx.fillStyle = '#2c3e50';
+  ctx.fillRect(size * 0.5, size * 0.65, size * 0.35, size * 0.2);
+  return canvas;
+};
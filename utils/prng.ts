@@ -0,0 +1,16 @@
+/**
+ * mulberry32: tiny, fast 32-bit PRNG. Same seed, same sequence, on any
+ * thread — which is what makes grain reproducible between re-renders.
+ */
+export const createRandom = (seed: number): (() => number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const createSeed = () => Math.floor(Math.random() * 4294967296) >>> 0;
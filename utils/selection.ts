@@ -0,0 +1,128 @@
+import { PHOTO_SCALE_MAX, PHOTO_SCALE_MIN } from '../constants';
+import { WallItem, WallItemBase } from '../types';
+import { decorationSize, isDecoration } from './decorations';
+import { cardGeometry, getFilmFormat } from './filmFormat';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Rect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+export type ItemTransform = Pick<WallItemBase, 'x' | 'y' | 'rotation' | 'scale'>;
+
+/** An item as it was when a group gesture started. */
+export interface ItemPose {
+  id: string;
+  center: Point;
+  width: number; // Unscaled size
+  height: number;
+  rotation: number;
+  scale: number;
+}
+
+export const rotatePoint = ({ x, y }: Point, degrees: number): Point => {
+  const rad = (degrees * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return { x: x * cos - y * sin, y: x * sin + y * cos };
+};
+
+const itemSize = (item: WallItem) =>
+  isDecoration(item) ? decorationSize(item) : cardGeometry(getFilmFormat(item.formatId));
+
+export const itemPose = (item: WallItem): ItemPose => {
+  const { width, height } = itemSize(item);
+  return {
+    id: item.id,
+    center: { x: item.x + width / 2, y: item.y + height / 2 },
+    width,
+    height,
+    rotation: item.rotation,
+    scale: item.scale,
+  };
+};
+
+/** Axis-aligned box around the item as drawn, rotation and scale included. */
+export const itemBounds = (item: WallItem): Rect => {
+  const { center, width, height, rotation, scale } = itemPose(item);
+  const corners = [
+    { x: -width / 2, y: -height / 2 },
+    { x: width / 2, y: -height / 2 },
+    { x: width / 2, y: height / 2 },
+    { x: -width / 2, y: height / 2 },
+  ].map((corner) => rotatePoint({ x: corner.x * scale, y: corner.y * scale }, rotation));
+  const xs = corners.map((c) => center.x + c.x);
+  const ys = corners.map((c) => center.y + c.y);
+  return { left: Math.min(...xs), top: Math.min(...ys), right: Math.max(...xs), bottom: Math.max(...ys) };
+};
+
+/** Whether `point` lands on the item itself, not just its bounding box. */
+export const itemContains = (item: WallItem, point: Point) => {
+  const { center, width, height, rotation, scale } = itemPose(item);
+  const local = rotatePoint({ x: point.x - center.x, y: point.y - center.y }, -rotation);
+  return Math.abs(local.x) <= (width * scale) / 2 && Math.abs(local.y) <= (height * scale) / 2;
+};
+
+export const unionBounds = (rects: Rect[]): Rect | null =>
+  rects.length === 0
+    ? null
+    : {
+        left: Math.min(...rects.map((r) => r.left)),
+        top: Math.min(...rects.map((r) => r.top)),
+        right: Math.max(...rects.map((r) => r.right)),
+        bottom: Math.max(...rects.map((r) => r.bottom)),
+      };
+
+export const rectCenter = (rect: Rect): Point => ({
+  x: (rect.left + rect.right) / 2,
+  y: (rect.top + rect.bottom) / 2,
+});
+
+export const rectFromPoints = (a: Point, b: Point): Rect => ({
+  left: Math.min(a.x, b.x),
+  top: Math.min(a.y, b.y),
+  right: Math.max(a.x, b.x),
+  bottom: Math.max(a.y, b.y),
+});
+
+export const rectsIntersect = (a: Rect, b: Rect) =>
+  a.left <= b.right && b.left <= a.right && a.top <= b.bottom && b.top <= a.bottom;
+
+/** Limits a group scale factor so no item leaves the allowed scale range. */
+export const clampGroupFactor = (poses: ItemPose[], factor: number) => {
+  if (poses.length === 0) return factor;
+  const smallest = Math.min(...poses.map((p) => p.scale));
+  const largest = Math.max(...poses.map((p) => p.scale));
+  return Math.max(PHOTO_SCALE_MIN / smallest, Math.min(PHOTO_SCALE_MAX / largest, factor));
+};
+
+/**
+ * Moves, rotates and scales a group of items as one rigid piece around
+ * `pivot`: each item's offset from the pivot turns and stretches with the
+ * group, and its own rotation and scale follow along.
+ */
+export const transformGroup = (
+  poses: ItemPose[],
+  pivot: Point,
+  { dx = 0, dy = 0, angle = 0, factor = 1 }: { dx?: number; dy?: number; angle?: number; factor?: number }
+): Map<string, ItemTransform> => {
+  const result = new Map<string, ItemTransform>();
+  poses.forEach((pose) => {
+    const offset = rotatePoint({ x: pose.center.x - pivot.x, y: pose.center.y - pivot.y }, angle);
+    const center = { x: pivot.x + offset.x * factor + dx, y: pivot.y + offset.y * factor + dy };
+    result.set(pose.id, {
+      x: center.x - pose.width / 2,
+      y: center.y - pose.height / 2,
+      rotation: pose.rotation + angle,
+      scale: pose.scale * factor,
+    });
+  });
+  return result;
+};
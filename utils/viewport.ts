@@ -0,0 +1,93 @@
+import { WALL_ZOOM_MAX, WALL_ZOOM_MIN } from '../constants';
+import { WallViewport } from '../types';
+import { DEFAULT_BOARD_ID } from './boards';
+import { Point, Rect } from './selection';
+
+const STORAGE_KEY = 'pulsesnap.viewport';
+
+// Walls saved before the viewport existed stored client pixels, which are
+// exactly world coordinates under this view.
+export const DEFAULT_VIEWPORT: WallViewport = { x: 0, y: 0, zoom: 1 };
+
+// Each board has its own view; the first keeps the key from before boards.
+const storageKey = (boardId: string) => (boardId === DEFAULT_BOARD_ID ? STORAGE_KEY : `${STORAGE_KEY}.${boardId}`);
+
+const clampZoom = (zoom: number) => Math.max(WALL_ZOOM_MIN, Math.min(WALL_ZOOM_MAX, zoom));
+
+export const loadViewport = (boardId: string): WallViewport => {
+  try {
+    const stored = localStorage.getItem(storageKey(boardId));
+    if (!stored) return DEFAULT_VIEWPORT;
+    const parsed = JSON.parse(stored) as Partial<WallViewport>;
+    if (![parsed.x, parsed.y, parsed.zoom].every((n) => typeof n === 'number' && Number.isFinite(n))) {
+      return DEFAULT_VIEWPORT;
+    }
+    return { x: parsed.x as number, y: parsed.y as number, zoom: clampZoom(parsed.zoom as number) };
+  } catch (err) {
+    console.warn('Could not load wall viewport', err);
+    return DEFAULT_VIEWPORT;
+  }
+};
+
+export const saveViewport = (boardId: string, viewport: WallViewport) => {
+  try {
+    localStorage.setItem(storageKey(boardId), JSON.stringify(viewport));
+  } catch (err) {
+    console.warn('Could not save wall viewport', err);
+  }
+};
+
+export const forgetViewport = (boardId: string) => {
+  try {
+    localStorage.removeItem(storageKey(boardId));
+  } catch (err) {
+    console.warn('Could not forget wall viewport', err);
+  }
+};
+
+export const toWorld = (viewport: WallViewport, client: Point): Point => ({
+  x: (client.x - viewport.x) / viewport.zoom,
+  y: (client.y - viewport.y) / viewport.zoom,
+});
+
+export const toScreen = (viewport: WallViewport, world: Point): Point => ({
+  x: world.x * viewport.zoom + viewport.x,
+  y: world.y * viewport.zoom + viewport.y,
+});
+
+/** Zooms by `factor`, keeping the world point under `client` where it is on screen. */
+export const zoomAround = (viewport: WallViewport, factor: number, client: Point): WallViewport => {
+  const zoom = clampZoom(viewport.zoom * factor);
+  const anchor = toWorld(viewport, client);
+  return { x: client.x - anchor.x * zoom, y: client.y - anchor.y * zoom, zoom };
+};
+
+/** The part of the world a `width` x `height` screen shows. */
+export const visibleWorldRect = (viewport: WallViewport, width: number, height: number): Rect => {
+  const topLeft = toWorld(viewport, { x: 0, y: 0 });
+  const bottomRight = toWorld(viewport, { x: width, y: height });
+  return { left: topLeft.x, top: topLeft.y, right: bottomRight.x, bottom: bottomRight.y };
+};
+
+/** A view that shows all of `rect`, never zoomed in past 1:1. */
+export const fitViewport = (rect: Rect, width: number, height: number, padding = 80): WallViewport => {
+  const zoom = clampZoom(
+    Math.min(
+      1,
+      (width - padding * 2) / Math.max(1, rect.right - rect.left),
+      (height - padding * 2) / Math.max(1, rect.bottom - rect.top)
+    )
+  );
+  return {
+    x: width / 2 - ((rect.left + rect.right) / 2) * zoom,
+    y: height / 2 - ((rect.top + rect.bottom) / 2) * zoom,
+    zoom,
+  };
+};
+
+/** Puts world point `world` in the middle of the screen. */
+export const centerOn = (viewport: WallViewport, world: Point, width: number, height: number): WallViewport => ({
+  ...viewport,
+  x: width / 2 - world.x * viewport.zoom,
+  y: height / 2 - world.y * viewport.zoom,
+});
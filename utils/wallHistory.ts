@@ -0,0 +1,81 @@
+import { WallItem } from '../types';
+
+// Development runs on its own clock; undoing a move must not rewind it.
+const UNTRACKED_KEYS = new Set(['isDeveloping', 'developProgress', 'developPaused']);
+
+/** One item's part of a history entry. `before`/`after` null = not on the wall. */
+export interface WallChange {
+  id: string;
+  index: number; // Position in the array it was removed from / added to
+  before: WallItem | null;
+  after: WallItem | null;
+  keys: string[]; // Fields that differ, for in-place edits
+}
+
+const changedKeys = (a: WallItem, b: WallItem) => {
+  const fields = (item: WallItem) => item as unknown as Record<string, unknown>;
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].filter((key) => !UNTRACKED_KEYS.has(key) && fields(a)[key] !== fields(b)[key]);
+};
+
+/** What changed between two versions of the wall, ignoring development progress. */
+export const diffWall = (prev: WallItem[], next: WallItem[]): WallChange[] => {
+  const nextById = new Map(next.map((p) => [p.id, p]));
+  const prevIds = new Set(prev.map((p) => p.id));
+  const changes: WallChange[] = [];
+
+  prev.forEach((before, index) => {
+    const after = nextById.get(before.id);
+    if (!after) {
+      changes.push({ id: before.id, index, before, after: null, keys: [] });
+    } else if (after !== before) {
+      const keys = changedKeys(before, after);
+      if (keys.length > 0) changes.push({ id: before.id, index, before, after, keys });
+    }
+  });
+  next.forEach((after, index) => {
+    if (!prevIds.has(after.id)) changes.push({ id: after.id, index, before: null, after, keys: [] });
+  });
+  return changes;
+};
+
+/**
+ * Replays `changes` onto the current wall towards their `before` (undo) or
+ * `after` (redo) side. Edits only touch the fields that changed, so anything
+ * that moved on since (development) is kept.
+ */
+export const applyChanges = (
+  current: WallItem[],
+  changes: WallChange[],
+  direction: 'before' | 'after'
+): WallItem[] => {
+  const result = [...current];
+  const from = direction === 'before' ? 'after' : 'before';
+
+  for (const change of changes) {
+    const target = change[direction];
+    const index = result.findIndex((p) => p.id === change.id);
+    if (!target) {
+      if (index !== -1) result.splice(index, 1);
+      continue;
+    }
+    // Items coming back are inserted below; edits to an item that's gone are dropped.
+    if (!change[from] || index === -1) continue;
+    const patch: Record<string, unknown> = {};
+    change.keys.forEach((key) => {
+      patch[key] = (target as unknown as Record<string, unknown>)[key];
+    });
+    result[index] = { ...result[index], ...patch };
+  }
+
+  // Re-insert removed items in their original order.
+  changes
+    .filter((change) => change[direction] && !change[from])
+    .sort((a, b) => a.index - b.index)
+    .forEach((change) => {
+      if (result.some((p) => p.id === change.id)) return;
+      result.splice(Math.min(change.index, result.length), 0, change[direction] as WallItem);
+    });
+
+  return result;
+};
@@ -0,0 +1,172 @@
+import {
+  PDF_PAGE_HEIGHT,
+  PDF_PAGE_WIDTH,
+  WALL_EXPORT_MARGIN,
+  WALL_EXPORT_MAX_PIXELS,
+  WALL_EXPORT_MAX_SIDE,
+} from '../constants';
+import { PhotoData, WallBackground, WallItem } from '../types';
+import { renderCardBackCanvas, renderCardCanvas } from './cardRenderer';
+import { drawDecorationAt } from './decorationRenderer';
+import { isPhoto } from './decorations';
+import { developProgressOf } from './development';
+import { buildPdf } from './pdf';
+import { Rect, itemBounds, itemPose, unionBounds } from './selection';
+import { stackingOrder } from './zOrder';
+
+export type WallExportScope = 'wall' | 'view' | 'selection';
+export type WallExportFormat = 'png' | 'pdf';
+
+// Same as a card's resting box-shadow on the wall: 0 4px 6px.
+const CARD_SHADOW = { offsetY: 4, blur: 6, color: 'rgba(0, 0, 0, 0.1)' };
+const PX_PER_PT = 96 / 72;
+
+const overlaps = (a: Rect, b: Rect) => a.left < b.right && b.left < a.right && a.top < b.bottom && b.top < a.bottom;
+
+/** What's worth exporting of `items`, with a margin of wall around it. */
+export const exportArea = (items: WallItem[]): Rect | null => {
+  const bounds = unionBounds(items.map(itemBounds));
+  return (
+    bounds && {
+      left: bounds.left - WALL_EXPORT_MARGIN,
+      top: bounds.top - WALL_EXPORT_MARGIN,
+      right: bounds.right + WALL_EXPORT_MARGIN,
+      bottom: bounds.bottom + WALL_EXPORT_MARGIN,
+    }
+  );
+};
+
+/** The largest multiplier up to `scale` that the browser can fit `area` in at. */
+export const fitExportScale = (area: Rect, scale: number) => {
+  const width = area.right - area.left;
+  const height = area.bottom - area.top;
+  return Math.min(
+    scale,
+    WALL_EXPORT_MAX_SIDE / width,
+    WALL_EXPORT_MAX_SIDE / height,
+    Math.sqrt(WALL_EXPORT_MAX_PIXELS / (width * height))
+  );
+};
+
+// The wall's pattern, with `ctx` in world coordinates. One tile is drawn
+// sharp at the export's resolution, then repeated from the world origin
+// just as the CSS background is.
+const drawBackground = (ctx: CanvasRenderingContext2D, background: WallBackground, area: Rect, scale: number) => {
+  ctx.fillStyle = background.color;
+  ctx.fillRect(area.left, area.top, area.right - area.left, area.bottom - area.top);
+
+  const tile = document.createElement('canvas');
+  tile.width = tile.height = Math.max(1, Math.round(background.tile * scale));
+  const tileCtx = tile.getContext('2d');
+  if (!tileCtx) throw new Error('Canvas 2D context unavailable');
+  const px = tile.width / background.tile;
+  tileCtx.fillStyle = background.ink;
+  if (background.mark === 'dots') {
+    tileCtx.beginPath();
+    tileCtx.arc(tile.width / 2, tile.height / 2, background.size * px, 0, Math.PI * 2);
+    tileCtx.fill();
+  } else {
+    tileCtx.fillRect(0, 0, tile.width, background.size * px);
+    tileCtx.fillRect(0, 0, background.size * px, tile.height);
+  }
+
+  const pattern = ctx.createPattern(tile, 'repeat');
+  if (!pattern) return;
+  pattern.setTransform(new DOMMatrix().scale(1 / px));
+  ctx.fillStyle = pattern;
+  ctx.fillRect(area.left, area.top, area.right - area.left, area.bottom - area.top);
+};
+
+// The side of a photo that's up, rendered at the size it'll be drawn.
+const renderCard = (photo: PhotoData, width: number) =>
+  photo.flipped ? renderCardBackCanvas(photo, width) : renderCardCanvas(photo, width, [], developProgressOf(photo));
+
+/**
+ * Draws the part of the wall inside `area` onto a new canvas: background,
+ * then every item in `items` that reaches into it, stacked as on screen.
+ * `scale` canvas px go to each wall px. A photo whose image won't load is
+ * left out rather than failing the whole picture.
+ */
+export const renderWallCanvas = async (
+  items: WallItem[],
+  area: Rect,
+  background: WallBackground,
+  scale: number
+): Promise<HTMLCanvasElement> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round((area.right - area.left) * scale));
+  canvas.height = Math.max(1, Math.round((area.bottom - area.top) * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  ctx.scale(scale, scale);
+  ctx.translate(-area.left, -area.top);
+  drawBackground(ctx, background, area, scale);
+
+  const byId = new Map(items.map((item) => [item.id, item]));
+  for (const id of stackingOrder(items)) {
+    const item = byId.get(id) as WallItem;
+    if (!overlaps(itemBounds(item), area)) continue;
+    if (!isPhoto(item)) {
+      drawDecorationAt(ctx, item);
+      continue;
+    }
+
+    const { center, width, height, rotation, scale: size } = itemPose(item);
+    let card: HTMLCanvasElement;
+    try {
+      card = await renderCard(item, width * size * scale);
+    } catch (err) {
+      console.error('Could not draw photo for export', err);
+      continue;
+    }
+    ctx.save();
+    ctx.translate(center.x, center.y);
+    ctx.rotate((rotation * Math.PI) / 180);
+    // Shadows ignore the transform, so they're sized in canvas px.
+    ctx.shadowColor = CARD_SHADOW.color;
+    ctx.shadowBlur = CARD_SHADOW.blur * size * scale;
+    ctx.shadowOffsetY = CARD_SHADOW.offsetY * size * scale;
+    ctx.drawImage(card, (-width * size) / 2, (-height * size) / 2, width * size, height * size);
+    ctx.restore();
+  }
+
+  return canvas;
+};
+
+const canvasBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the export'))), type, quality)
+  );
+
+export const renderWallPng = async (items: WallItem[], area: Rect, background: WallBackground, scale: number) =>
+  canvasBlob(await renderWallCanvas(items, area, background, scale), 'image/png');
+
+/**
+ * The wall inside `area` at true size, one wall px to a screen px at 96
+ * dpi, cut across as many A4 pages as it takes. Pages turn landscape when
+ * the area is wider than tall, and the grid of them is centred on it.
+ */
+export const renderWallPdf = async (items: WallItem[], area: Rect, background: WallBackground, scale: number) => {
+  const landscape = area.right - area.left > area.bottom - area.top;
+  const pageWidth = landscape ? PDF_PAGE_HEIGHT : PDF_PAGE_WIDTH;
+  const pageHeight = landscape ? PDF_PAGE_WIDTH : PDF_PAGE_HEIGHT;
+  const tileWidth = pageWidth * PX_PER_PT;
+  const tileHeight = pageHeight * PX_PER_PT;
+  const columns = Math.ceil((area.right - area.left) / tileWidth);
+  const rows = Math.ceil((area.bottom - area.top) / tileHeight);
+  const left = (area.left + area.right - columns * tileWidth) / 2;
+  const top = (area.top + area.bottom - rows * tileHeight) / 2;
+
+  const pages = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const pageLeft = left + column * tileWidth;
+      const pageTop = top + row * tileHeight;
+      const rect = { left: pageLeft, top: pageTop, right: pageLeft + tileWidth, bottom: pageTop + tileHeight };
+      const canvas = await renderWallCanvas(items, rect, background, scale);
+      const jpeg = new Uint8Array(await (await canvasBlob(canvas, 'image/jpeg', 0.92)).arrayBuffer());
+      pages.push({ jpeg, width: canvas.width, height: canvas.height });
+    }
+  }
+  return buildPdf(pages, pageWidth, pageHeight);
+};
@@ -0,0 +1,279 @@
+import { v4 as uuidv4 } from 'uuid';
+import { FilmLook, PhotoData, WallItem } from '../types';
+import { DEFAULT_BOARD_ID } from './boards';
+import { isPhoto } from './decorations';
+
+const DB_NAME = 'pulsesnap';
+const DB_VERSION = 1; // Object store layout; bump with an onupgradeneeded step
+const PHOTOS = 'photos'; // Holds decorations too, told apart by their `kind`, for every board
+const BLOBS = 'blobs';
+
+// Version of the WallItem records themselves. When a stored field changes
+// meaning, bump this and add a migration from the previous version.
+export const WALL_SCHEMA_VERSION = 2;
+
+type StoredRecord = Record<string, unknown> & { id: string; schemaVersion?: number };
+type StoredItem = WallItem & { schemaVersion: number; boardId: string };
+
+// Keyed by the version a record is migrated *from*.
+const MIGRATIONS: Record<number, (record: StoredRecord) => StoredRecord> = {
+  // Before boards, everything was on the one wall.
+  1: (record) => ({ ...record, boardId: DEFAULT_BOARD_ID }),
+};
+
+const migrateRecord = (record: StoredRecord): { boardId: string; item: WallItem } | null => {
+  let current = record;
+  let version = record.schemaVersion ?? 1;
+  while (version < WALL_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (migrate) current = migrate(current);
+    version++;
+  }
+  // Records from a newer build are loaded as they are; unknown fields ride along untouched.
+  if (typeof current.id !== 'string') return null;
+  if (typeof current.kind !== 'string' && typeof current.url !== 'string') return null;
+  if (typeof current.boardId !== 'string') return null;
+  const { schemaVersion: _version, boardId, ...item } = current;
+  return { boardId, item: item as unknown as WallItem };
+};
+
+// Images are stored as blobs and referenced from records as `idb:<key>`.
+const STORED_URL_PREFIX = 'idb:';
+
+export const isStoredUrl = (url?: string) => !!url?.startsWith(STORED_URL_PREFIX);
+
+const storedKey = (url: string) => url.slice(STORED_URL_PREFIX.length);
+
+// Object URL <-> blob key for everything loaded or saved this session, so
+// unchanged images are never written twice.
+const keyByUrl = new Map<string, string>();
+const urlByKey = new Map<string, Promise<string>>();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PHOTOS)) db.createObjectStore(PHOTOS, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(BLOBS)) db.createObjectStore(BLOBS);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+
+// Deletes a board's records inside `store`'s transaction, then runs `then` in it.
+const deleteBoardRecords = (store: IDBObjectStore, boardId: string, then?: () => void) => {
+  const request = store.getAll() as IDBRequest<StoredRecord[]>;
+  request.onsuccess = () => {
+    request.result.forEach((record) => {
+      if ((record.boardId ?? DEFAULT_BOARD_ID) === boardId) store.delete(record.id);
+    });
+    then?.();
+  };
+};
+
+const photoBlobKeys = (photo: PhotoData) =>
+  [photo.url, photo.rawUrl, ...(photo.developHistory ?? []).map((look) => look.url)]
+    .filter(isStoredUrl)
+    .map((url) => storedKey(url as string));
+
+/**
+ * Turns an `idb:` reference into an object URL, loading the blob on first
+ * use. Anything else (object or data URLs) is returned as is.
+ */
+export const resolveImageUrl = (url: string): Promise<string> => {
+  if (!isStoredUrl(url)) return Promise.resolve(url);
+  const key = storedKey(url);
+  let resolved = urlByKey.get(key);
+  if (!resolved) {
+    resolved = openDb()
+      .then((db) => requestResult(db.transaction(BLOBS).objectStore(BLOBS).get(key)))
+      .then((blob: Blob | undefined) => {
+        if (!blob) throw new Error(`Stored image ${key} is missing`);
+        const objectUrl = URL.createObjectURL(blob);
+        keyByUrl.set(objectUrl, key);
+        return objectUrl;
+      });
+    resolved.catch(() => urlByKey.delete(key));
+    urlByKey.set(key, resolved);
+  }
+  return resolved;
+};
+
+// Every board's saved items, migrated.
+const loadEntries = async (db: IDBDatabase) => {
+  const records = await requestResult(
+    db.transaction(PHOTOS).objectStore(PHOTOS).getAll() as IDBRequest<StoredRecord[]>
+  );
+  return records.flatMap((record) => {
+    try {
+      const entry = migrateRecord(record);
+      return entry ? [entry] : [];
+    } catch (err) {
+      console.warn('Skipping stored item', record.id, err);
+      return [];
+    }
+  });
+};
+
+// Revokes the object URLs made for blobs no longer `wanted`, so the browser
+// can let go of them, and forgets them; asking again makes a fresh one.
+const releaseUrls = (wanted: (key: string) => boolean) => {
+  keyByUrl.forEach((key, url) => {
+    if (wanted(key)) return;
+    URL.revokeObjectURL(url);
+    keyByUrl.delete(url);
+    urlByKey.delete(key);
+  });
+};
+
+// Deletes the blobs no saved photo on any board points at.
+const collectBlobs = async (db: IDBDatabase) => {
+  const entries = await loadEntries(db);
+  const referenced = new Set(entries.map((e) => e.item).filter(isPhoto).flatMap(photoBlobKeys));
+  const tx = db.transaction(BLOBS, 'readwrite');
+  const blobs = tx.objectStore(BLOBS);
+  const keysRequest = blobs.getAllKeys();
+  keysRequest.onsuccess = () => {
+    keysRequest.result.forEach((key) => {
+      if (!referenced.has(String(key))) blobs.delete(key);
+    });
+  };
+  await transactionDone(tx);
+  releaseUrls((key) => referenced.has(key));
+};
+
+/**
+ * Loads a board's saved wall. Images stay in IndexedDB as `idb:` references
+ * until something resolves them. Blobs no saved photo points at any more are
+ * collected here rather than on delete, so an undone delete can still find
+ * its images later in the session. The wall this one replaces is unloaded:
+ * its object URLs are revoked, bar those this board shares.
+ */
+export const loadWall = async (boardId: string): Promise<WallItem[]> => {
+  const db = await openDb();
+  const items = (await loadEntries(db)).filter((e) => e.boardId === boardId).map((e) => e.item);
+  items.sort((a, b) => a.timestamp - b.timestamp);
+  await collectBlobs(db);
+  const shown = new Set(items.filter(isPhoto).flatMap(photoBlobKeys));
+  releaseUrls((key) => shown.has(key));
+  return items;
+};
+
+/**
+ * Writes `items` to a board, storing only images not yet stored. With
+ * `replace` the board's other saved items go; without, they stay.
+ */
+const storeItems = async (boardId: string, items: WallItem[], replace: boolean) => {
+  const newBlobs = new Map<string, Blob>();
+  const newKeys = new Map<string, string>();
+
+  const toStoredUrl = async (url: string) => {
+    if (isStoredUrl(url)) return url;
+    let key = keyByUrl.get(url) ?? newKeys.get(url);
+    if (!key) {
+      key = uuidv4();
+      newKeys.set(url, key);
+      newBlobs.set(key, await (await fetch(url)).blob());
+    }
+    return STORED_URL_PREFIX + key;
+  };
+  const toStoredLook = async (look: FilmLook) => ({ ...look, url: await toStoredUrl(look.url) });
+
+  const records: StoredItem[] = await Promise.all(
+    items.map(async (item) =>
+      isPhoto(item)
+        ? {
+            ...item,
+            schemaVersion: WALL_SCHEMA_VERSION,
+            boardId,
+            url: await toStoredUrl(item.url),
+            rawUrl: item.rawUrl && (await toStoredUrl(item.rawUrl)),
+            developHistory: item.developHistory && (await Promise.all(item.developHistory.map(toStoredLook))),
+          }
+        : { ...item, schemaVersion: WALL_SCHEMA_VERSION, boardId }
+    )
+  );
+
+  const db = await openDb();
+  const tx = db.transaction([PHOTOS, BLOBS], 'readwrite');
+  const blobStore = tx.objectStore(BLOBS);
+  newBlobs.forEach((blob, key) => blobStore.put(blob, key));
+  const itemStore = tx.objectStore(PHOTOS);
+  if (replace) deleteBoardRecords(itemStore, boardId, () => records.forEach((record) => itemStore.put(record)));
+  else records.forEach((record) => itemStore.put(record));
+  await transactionDone(tx);
+
+  // Only remember keys once the blobs are really on disk.
+  newKeys.forEach((key, url) => {
+    keyByUrl.set(url, key);
+    urlByKey.set(key, Promise.resolve(url));
+  });
+};
+
+/** Replaces a board's saved wall with `items`. */
+export const saveWall = (boardId: string, items: WallItem[]) => storeItems(boardId, items, true);
+
+/** Adds `items` to a board's saved wall, next to what's already there. */
+export const addToWall = (boardId: string, items: WallItem[]) => storeItems(boardId, items, false);
+
+/** Deletes a board's saved photos and decorations, and images only they used. */
+export const clearWall = async (boardId: string) => {
+  const db = await openDb();
+  const tx = db.transaction(PHOTOS, 'readwrite');
+  deleteBoardRecords(tx.objectStore(PHOTOS), boardId);
+  await transactionDone(tx);
+  await collectBlobs(db);
+};
+
+export interface StorageEstimate {
+  usage: number; // bytes
+  quota: number; // bytes
+}
+
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+  if (!navigator.storage?.estimate) return null;
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return quota > 0 ? { usage, quota } : null;
+  } catch {
+    return null;
+  }
+};
+
+/** Asks the browser not to evict the wall under storage pressure. Best effort. */
+export const requestPersistentStorage = async () => {
+  try {
+    if (navigator.storage?.persisted && (await navigator.storage.persisted())) return;
+    await navigator.storage?.persist?.();
+  } catch {
+    // Not supported or refused; the wall is still saved, just evictable.
+  }
+};
+
+export const isQuotaError = (err: unknown) =>
+  err instanceof DOMException && (err.name === 'QuotaExceededError' || err.code === 22);
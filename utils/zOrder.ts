@@ -0,0 +1,80 @@
+import { WallItem } from '../types';
+import { hostOf } from './decorations';
+
+export type ZOrderAction = 'forward' | 'backward' | 'front' | 'back';
+
+export const Z_ORDER_LABELS: Record<ZOrderAction, string> = {
+  forward: 'Bring forward',
+  backward: 'Send backward',
+  front: 'Bring to front',
+  back: 'Send to back',
+};
+
+// Photos without a z (walls saved before z-order existed) sit at 0, where
+// ties fall back to wall order, which is how they were drawn back then.
+const zOf = (item: WallItem) => item.z ?? 0;
+
+/**
+ * Ids bottom to top. Tape and pins ride directly above the photo they hold,
+ * whatever their own z, so restacking never buries them under it.
+ */
+export const stackingOrder = (items: WallItem[]): string[] => {
+  const ids = new Set(items.map((item) => item.id));
+  const riders = new Map<string, string[]>();
+  const free: string[] = [];
+  items
+    .map((item, index) => ({ item, z: zOf(item), index }))
+    .sort((a, b) => a.z - b.z || a.index - b.index)
+    .forEach(({ item }) => {
+      const host = hostOf(item);
+      if (host && ids.has(host)) riders.set(host, [...(riders.get(host) ?? []), item.id]);
+      else free.push(item.id);
+    });
+  return free.flatMap((id) => [id, ...(riders.get(id) ?? [])]);
+};
+
+/** A z above everything on the wall, for new arrivals. */
+export const nextZ = (items: WallItem[]) =>
+  items.length === 0 ? 0 : Math.max(...items.map(zOf)) + 1;
+
+const reorder = (order: string[], ids: Set<string>, action: ZOrderAction): string[] => {
+  const moving = order.filter((id) => ids.has(id));
+  const staying = order.filter((id) => !ids.has(id));
+  if (action === 'front') return [...staying, ...moving];
+  if (action === 'back') return [...moving, ...staying];
+
+  // One step: each moving item swaps with the nearest other item past it.
+  const result = [...order];
+  const step = action === 'forward' ? 1 : -1;
+  const indices = result.map((_, i) => i);
+  if (action === 'forward') indices.reverse();
+  indices.forEach((i) => {
+    const j = i + step;
+    if (j < 0 || j >= result.length) return;
+    if (ids.has(result[i]) && !ids.has(result[j])) [result[i], result[j]] = [result[j], result[i]];
+  });
+  return result;
+};
+
+const renumber = <T extends WallItem>(items: T[], order: string[]): T[] => {
+  const zById = new Map(order.map((id, z) => [id, z]));
+  return items.map((item) => (item.z === zById.get(item.id) ? item : { ...item, z: zById.get(item.id) }));
+};
+
+/**
+ * Restacks `ids`, along with anything pinned or taped to them, and renumbers
+ * z to match. Returns `items` itself when the order wouldn't change, so a
+ * click on the top photo isn't an edit.
+ */
+export const applyZOrder = <T extends WallItem>(items: T[], ids: string[], action: ZOrderAction): T[] => {
+  const order = stackingOrder(items);
+  const moving = new Set(ids);
+  items.forEach((item) => {
+    const host = hostOf(item);
+    if (host && moving.has(host)) moving.add(item.id);
+  });
+  const next = stackingOrder(renumber(items, reorder(order, moving, action)));
+  if (next.every((id, i) => id === order[i])) return items;
+  return renumber(items, next);
+};
+